@@ -0,0 +1,161 @@
+/**
+ * Drives the real Binance adapter (`createBinanceAdapter`) against the fake
+ * server and checks the snapshot + buffered U/u synchronisation:
+ *   node scripts/check-binance-sync.mjs
+ *
+ * The adapter is loaded through Vite so the `@/` alias and `import.meta.env`
+ * resolve as in the app. Diff events are handed to `parseMessage` directly, in
+ * the order the socket would deliver them; the REST snapshot comes from the
+ * fake server over HTTP. Exits non-zero when any scenario fails.
+ */
+import assert from 'node:assert/strict';
+import { createServer } from 'vite';
+import { startFakeBinance } from './fake-binance-server.mjs';
+
+const SYMBOL = 'BTCUSDT';
+
+const vite = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  // Only source modules are loaded; skip the browser dependency pre-bundling
+  optimizeDeps: { noDiscovery: true },
+  server: { middlewareMode: true, hmr: false }
+});
+
+const { createBinanceAdapter } = await vite.ssrLoadModule('/src/services/exchanges/binance.ts');
+const { LocalOrderBook } = await vite.ssrLoadModule('/src/services/api/localOrderBook.ts');
+
+// FeedContext as the WebSocket service builds it, recording emits and resyncs
+const createContext = () => {
+  const context = {
+    symbol: SYMBOL,
+    book: new LocalOrderBook(),
+    resyncs: 0,
+    emitted: [],
+    resync: () => {
+      context.resyncs += 1;
+    },
+    emit: (book) => context.emitted.push(book)
+  };
+  return context;
+};
+
+const waitFor = async (condition, description, timeout = 5000) => {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeout) throw new Error(`Timed out waiting for ${description}`);
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+const assertBookMatches = (book, snapshot) => {
+  assert.deepEqual(book.getLevels('bids'), snapshot.bids, 'bids differ from the venue book');
+  assert.deepEqual(book.getLevels('asks'), snapshot.asks, 'asks differ from the venue book');
+  assert.equal(book.lastUpdateId, snapshot.lastUpdateId);
+};
+
+const withFake = async (options, run) => {
+  const fake = await startFakeBinance({ port: 0, streamInterval: 0, ...options });
+  try {
+    const adapter = createBinanceAdapter({ wsUrl: fake.wsUrl, restUrl: fake.restUrl });
+    await run(fake, adapter);
+  } finally {
+    await fake.close();
+  }
+};
+
+// Subscribes and feeds events published before and while the snapshot is in flight
+const subscribeWithBufferedEvents = async (fake, adapter, context, { before = 3, during = 3, gapDuring = false } = {}) => {
+  const early = Array.from({ length: before }, () => fake.publish(SYMBOL));
+  const requested = fake.nextSnapshotRequest();
+  adapter.onSubscribe(context);
+  early.forEach(event => assert.equal(adapter.parseMessage(event, context), null, 'events before the snapshot must be buffered'));
+
+  await requested;
+  for (let i = 0; i < during; i++) {
+    const event = fake.publish(SYMBOL, { gap: gapDuring && i === during - 1 });
+    assert.equal(adapter.parseMessage(event, context), null);
+  }
+};
+
+const scenarios = {
+  'bridges the snapshot with buffered events and applies live diffs': () => withFake({}, async (fake, adapter) => {
+    const context = createContext();
+    await subscribeWithBufferedEvents(fake, adapter, context);
+    await waitFor(() => context.emitted.length === 1, 'the synchronised book');
+
+    assert.equal(fake.snapshotRequests, 1);
+    assert.equal(context.resyncs, 0);
+    assertBookMatches(context.book, fake.snapshot(SYMBOL));
+
+    for (let i = 0; i < 20; i++) {
+      assert.ok(adapter.parseMessage(fake.publish(SYMBOL), context), 'live diff was not applied');
+    }
+    assertBookMatches(context.book, fake.snapshot(SYMBOL));
+  }),
+
+  'ignores diffs already contained in the book': () => withFake({}, async (fake, adapter) => {
+    const context = createContext();
+    await subscribeWithBufferedEvents(fake, adapter, context);
+    await waitFor(() => context.emitted.length === 1, 'the synchronised book');
+
+    const event = fake.publish(SYMBOL);
+    adapter.parseMessage(event, context);
+    assert.ok(adapter.parseMessage(event, context), 'a replayed diff must be skipped, not treated as a gap');
+    assert.equal(context.resyncs, 0);
+    assertBookMatches(context.book, fake.snapshot(SYMBOL));
+  }),
+
+  'resynchronises on a gap in the live stream': () => withFake({}, async (fake, adapter) => {
+    const context = createContext();
+    await subscribeWithBufferedEvents(fake, adapter, context);
+    await waitFor(() => context.emitted.length === 1, 'the synchronised book');
+
+    assert.equal(adapter.parseMessage(fake.publish(SYMBOL, { gap: true }), context), null);
+    assert.equal(context.resyncs, 1);
+  }),
+
+  'resynchronises when the buffered events are not continuous': () => withFake({}, async (fake, adapter) => {
+    const context = createContext();
+    await subscribeWithBufferedEvents(fake, adapter, context, { gapDuring: true });
+    await waitFor(() => context.resyncs === 1, 'the resync');
+
+    assert.equal(context.emitted.length, 0);
+  }),
+
+  'refetches a snapshot older than the first buffered event': () => withFake({ staleSnapshots: 1 }, async (fake, adapter) => {
+    const context = createContext();
+    await subscribeWithBufferedEvents(fake, adapter, context);
+    await waitFor(() => context.emitted.length === 1, 'the synchronised book');
+
+    assert.equal(fake.snapshotRequests, 2);
+    assert.equal(context.resyncs, 0);
+  }),
+
+  'gives up after three stale snapshots': () => withFake({ staleSnapshots: 3 }, async (fake, adapter) => {
+    const context = createContext();
+    await subscribeWithBufferedEvents(fake, adapter, context);
+    await waitFor(() => context.resyncs === 1, 'the resync');
+
+    assert.equal(fake.snapshotRequests, 3);
+    assert.equal(context.emitted.length, 0);
+  })
+};
+
+let failures = 0;
+try {
+  for (const [name, run] of Object.entries(scenarios)) {
+    try {
+      await run();
+      console.log(`ok - ${name}`);
+    } catch (error) {
+      failures += 1;
+      console.error(`not ok - ${name}\n  ${error instanceof Error ? error.message : error}`);
+    }
+  }
+} finally {
+  await vite.close();
+}
+
+console.log(failures ? `${failures} scenario(s) failed` : 'All Binance sync scenarios passed');
+process.exit(failures ? 1 : 0);
@@ -0,0 +1,308 @@
+/**
+ * Local stand-in for the Binance spot endpoints the app uses: the REST depth
+ * snapshot (`GET /api/v3/depth`) and the `@depth@100ms` diff stream on `/ws`.
+ * Every symbol gets a synthetic book whose update ids advance like Binance's,
+ * so the snapshot + buffered U/u synchronisation runs exactly as in production.
+ *
+ * Run it standalone and point the app at it:
+ *   node scripts/fake-binance-server.mjs [--port 9444] [--gap-every 50]
+ *   VITE_BINANCE_WS_URL=ws://localhost:9444/ws VITE_BINANCE_REST_URL=http://localhost:9444 pnpm dev
+ *
+ * `scripts/check-binance-sync.mjs` imports `startFakeBinance` to drive the
+ * adapter headlessly.
+ */
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const BOOK_LEVELS = 50;
+const MID_PRICES = { BTCUSDT: 100000, ETHUSDT: 3500, SOLUSDT: 150, XRPUSDT: 0.5, DOGEUSDT: 0.15 };
+
+// Small seeded PRNG so headless runs are reproducible
+const createRandom = (seed) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Authoritative book for one symbol. `tick` mutates it and returns the
+ * matching depthUpdate event; `snapshot` returns the REST response body.
+ */
+const createBookSimulator = (symbol, random) => {
+  const mid = MID_PRICES[symbol] ?? 100;
+  const tick = mid / 10000;
+  const decimals = Math.max(0, Math.ceil(-Math.log10(tick)));
+  const formatPrice = (price) => price.toFixed(decimals);
+  const randomQuantity = () => (random() * 5 + 0.001).toFixed(8);
+
+  const sides = { bids: new Map(), asks: new Map() };
+  for (let i = 1; i <= BOOK_LEVELS; i++) {
+    sides.bids.set(formatPrice(mid - i * tick), randomQuantity());
+    sides.asks.set(formatPrice(mid + i * tick), randomQuantity());
+  }
+  let updateId = 1000;
+
+  const sorted = (side, limit) => [...sides[side].entries()]
+    .sort((a, b) => side === 'bids' ? Number(b[0]) - Number(a[0]) : Number(a[0]) - Number(b[0]))
+    .slice(0, limit);
+
+  return {
+    get lastUpdateId() {
+      return updateId;
+    },
+    snapshot: (limit = 1000) => ({
+      lastUpdateId: updateId,
+      bids: sorted('bids', limit),
+      asks: sorted('asks', limit)
+    }),
+    // With gap set, a few update ids are skipped so the client has to resynchronise
+    tick: ({ gap = false } = {}) => {
+      if (gap) updateId += 5;
+      const event = { e: 'depthUpdate', E: Date.now(), s: symbol, U: updateId + 1, u: updateId, b: [], a: [] };
+
+      const changes = 1 + Math.floor(random() * 3);
+      for (let i = 0; i < changes; i++) {
+        const side = random() < 0.5 ? 'bids' : 'asks';
+        const offset = 1 + Math.floor(random() * (BOOK_LEVELS + 5));
+        const price = formatPrice(side === 'bids' ? mid - offset * tick : mid + offset * tick);
+        // Roughly one change in four removes the level
+        const quantity = random() < 0.25 ? '0.00000000' : randomQuantity();
+
+        if (Number(quantity) === 0) sides[side].delete(price);
+        else sides[side].set(price, quantity);
+
+        updateId += 1;
+        event[side === 'bids' ? 'b' : 'a'].push([price, quantity]);
+      }
+
+      event.u = updateId;
+      return event;
+    }
+  };
+};
+
+// Text frame from the server (unmasked)
+const encodeFrame = (text, opcode = 0x1) => {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Splits complete (masked) client frames off the buffer; returns the remainder
+const decodeFrames = (buffer, onFrame) => {
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+    onFrame(opcode, payload);
+    buffer = buffer.subarray(offset + length);
+  }
+  return buffer;
+};
+
+/**
+ * Starts the fake venue.
+ *
+ * @param options.port Port to listen on (0 picks a free one)
+ * @param options.snapshotDelay Milliseconds between capturing a snapshot and answering,
+ *   so diff events published meanwhile reach the client before the snapshot does
+ * @param options.staleSnapshots Number of snapshot requests answered with the book as
+ *   it was at startup, which is older than any event the client has buffered
+ * @param options.streamInterval Milliseconds between diff events on the socket (0 disables the timer)
+ * @param options.gapEvery Skip update ids on every Nth streamed event (0 disables)
+ * @param options.seed PRNG seed
+ */
+export const startFakeBinance = async ({
+  port = 9444,
+  snapshotDelay = 300,
+  staleSnapshots = 0,
+  streamInterval = 100,
+  gapEvery = 0,
+  seed = 1
+} = {}) => {
+  const random = createRandom(seed);
+  const simulators = new Map();
+  const initialSnapshots = new Map();
+  const clients = new Set();
+  const snapshotWaiters = [];
+  let snapshotRequests = 0;
+  let staleRemaining = staleSnapshots;
+  let streamed = 0;
+
+  const simulator = (symbol) => {
+    let sim = simulators.get(symbol);
+    if (!sim) {
+      sim = createBookSimulator(symbol, random);
+      simulators.set(symbol, sim);
+      initialSnapshots.set(symbol, sim.snapshot());
+    }
+    return sim;
+  };
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const headers = { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' };
+    const symbol = url.searchParams.get('symbol');
+
+    if (url.pathname !== '/api/v3/depth' || !symbol) {
+      res.writeHead(404, headers).end(JSON.stringify({ code: -1100, msg: 'Unknown endpoint' }));
+      return;
+    }
+
+    const limit = Number(url.searchParams.get('limit') ?? 100);
+    const sim = simulator(symbol);
+    let body = sim.snapshot(limit);
+    if (staleRemaining > 0) {
+      staleRemaining -= 1;
+      body = initialSnapshots.get(symbol);
+    }
+
+    snapshotRequests += 1;
+    snapshotWaiters.splice(0).forEach(resolve => resolve(body));
+    setTimeout(() => res.writeHead(200, headers).end(JSON.stringify(body)), snapshotDelay);
+  });
+
+  // Minimal RFC 6455 server: text frames, ping/pong and close are all the app needs
+  server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (!key || !(req.url ?? '').startsWith('/ws')) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '', ''
+    ].join('\r\n'));
+
+    const client = { socket, streams: new Set() };
+    clients.add(client);
+    let pending = Buffer.alloc(0);
+
+    socket.on('data', (chunk) => {
+      pending = decodeFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+        if (opcode === 0x8) {
+          socket.end(encodeFrame('', 0x8));
+          return;
+        }
+        if (opcode === 0x9) {
+          socket.write(encodeFrame(payload.toString(), 0xa));
+          return;
+        }
+        if (opcode !== 0x1) return;
+
+        const request = JSON.parse(payload.toString());
+        const params = Array.isArray(request.params) ? request.params : [];
+        params.forEach(stream => {
+          if (request.method === 'SUBSCRIBE') client.streams.add(stream);
+          if (request.method === 'UNSUBSCRIBE') client.streams.delete(stream);
+        });
+        socket.write(encodeFrame(JSON.stringify({ result: null, id: request.id })));
+      });
+    });
+    socket.on('close', () => clients.delete(client));
+    socket.on('error', () => clients.delete(client));
+  });
+
+  // Advances one symbol's book and pushes the event to every subscriber
+  const publish = (symbol, options) => {
+    const event = simulator(symbol).tick(options);
+    const stream = `${symbol.toLowerCase()}@depth@100ms`;
+    clients.forEach(client => {
+      if (client.streams.has(stream)) client.socket.write(encodeFrame(JSON.stringify(event)));
+    });
+    return event;
+  };
+
+  const timer = streamInterval > 0 ? setInterval(() => {
+    const symbols = new Set();
+    clients.forEach(client => client.streams.forEach(stream => {
+      if (stream.endsWith('@depth@100ms')) symbols.add(stream.split('@')[0].toUpperCase());
+    }));
+    symbols.forEach(symbol => {
+      streamed += 1;
+      publish(symbol, { gap: gapEvery > 0 && streamed % gapEvery === 0 });
+    });
+  }, streamInterval) : null;
+
+  await new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, resolve);
+  });
+  const { port: boundPort } = server.address();
+
+  return {
+    restUrl: `http://localhost:${boundPort}`,
+    wsUrl: `ws://localhost:${boundPort}/ws`,
+    get snapshotRequests() {
+      return snapshotRequests;
+    },
+    publish,
+    snapshot: (symbol, limit) => simulator(symbol).snapshot(limit),
+    // Resolves with the snapshot captured by the next REST request, before it is answered
+    nextSnapshotRequest: () => new Promise(resolve => snapshotWaiters.push(resolve)),
+    close: () => new Promise(resolve => {
+      if (timer) clearInterval(timer);
+      clients.forEach(client => client.socket.destroy());
+      server.close(() => resolve());
+    })
+  };
+};
+
+const readFlag = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] !== undefined ? Number(process.argv[index + 1]) : fallback;
+};
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const fake = await startFakeBinance({
+    port: readFlag('port', 9444),
+    gapEvery: readFlag('gap-every', 0),
+    staleSnapshots: readFlag('stale-snapshots', 0)
+  });
+  console.log(`Fake Binance listening: REST ${fake.restUrl}, WebSocket ${fake.wsUrl}`);
+  console.log(`VITE_BINANCE_WS_URL=${fake.wsUrl} VITE_BINANCE_REST_URL=${fake.restUrl} pnpm dev`);
+
+  const shutdown = () => fake.close().then(() => process.exit(0));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
@@ -0,0 +1,81 @@
+import { memo, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ConnectionState } from '@/types/orderbook';
+import { cn } from '@/lib/utils';
+
+interface ConnectionStatusProps {
+  state: ConnectionState;
+  onReconnect: () => void;
+  onDisconnect: () => void;
+}
+
+export const getConnectionLabel = (state: ConnectionState, now = Date.now()): string => {
+  switch (state.status) {
+    case 'idle':
+      return 'Idle';
+    case 'connecting':
+      return 'Connecting...';
+    case 'open':
+      return 'Subscribing...';
+    case 'subscribed':
+      return 'Live';
+    case 'stale':
+      return 'Stale feed';
+    case 'reconnecting': {
+      const seconds = Math.max(0, Math.ceil((state.nextRetryAt - now) / 1000));
+      return `Reconnecting in ${seconds}s (attempt ${state.attempt})`;
+    }
+    case 'failed':
+      return 'Connection failed';
+    case 'closed':
+      return 'Disconnected';
+  }
+};
+
+const getIndicatorColor = (state: ConnectionState): string => {
+  switch (state.status) {
+    case 'subscribed':
+      return 'bg-green-500';
+    case 'open':
+    case 'connecting':
+    case 'stale':
+    case 'reconnecting':
+      return 'bg-yellow-500';
+    case 'failed':
+      return 'bg-red-500';
+    default:
+      return 'bg-slate-400';
+  }
+};
+
+const ConnectionStatus = ({ state, onReconnect, onDisconnect }: ConnectionStatusProps) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second while a retry is scheduled so the countdown stays accurate
+  useEffect(() => {
+    if (state.status !== 'reconnecting') return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [state]);
+
+  const canReconnect = state.status === 'failed' || state.status === 'closed' || state.status === 'stale';
+
+  return (
+    <div className="flex items-center space-x-2">
+      <div className={cn("h-2 w-2 rounded-full", getIndicatorColor(state))}></div>
+      <span className="text-sm">{getConnectionLabel(state, now)}</span>
+      {canReconnect ? (
+        <Button size="sm" variant="outline" className="h-7" onClick={onReconnect}>
+          Reconnect
+        </Button>
+      ) : state.status !== 'idle' && (
+        <Button size="sm" variant="ghost" className="h-7" onClick={onDisconnect}>
+          Disconnect
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default memo(ConnectionStatus);
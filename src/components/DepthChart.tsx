@@ -1,14 +1,23 @@
 import { useRef, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { OrderBook, OrderSimulation } from '@/types/orderbook';
+import { ConditionalOrder, OrderBook, OrderSimulation } from '@/types/orderbook';
 import { cn } from '@/lib/utils';
+import { InstrumentFormatter } from '@/lib/format';
+import { getSimulationPrice } from '@/services/orderbookService';
+import { ORDER_TYPE_LABELS } from '@/services/conditionalOrderService';
 
 interface DepthChartProps {
   orderBook: OrderBook;
-  simulation: OrderSimulation | null;
+  // Active simulations of the displayed market
+  simulations: OrderSimulation[];
+  // Armed conditional orders of the displayed market
+  conditionalOrders: ConditionalOrder[];
+  formatter: InstrumentFormatter;
 }
 
-const DepthChart = ({ orderBook, simulation }: DepthChartProps) => {
+const TRIGGER_COLOR = '#f59e0b';
+
+const DepthChart = ({ orderBook, simulations, conditionalOrders, formatter }: DepthChartProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
   // Use a reference to track previous data to avoid unnecessary redraws
@@ -26,7 +35,9 @@ const DepthChart = ({ orderBook, simulation }: DepthChartProps) => {
     const currentData = JSON.stringify({
       bids: orderBook.bids.map(b => [b.price, b.quantity]),
       asks: orderBook.asks.map(a => [a.price, a.quantity]),
-      simulation: simulation ? { price: simulation.form.price, side: simulation.form.side } : null
+      simulations: simulations.map(simulation => [getSimulationPrice(simulation), simulation.form.side, simulation.form.type]),
+      triggers: conditionalOrders.map(order => [order.triggerPrice, order.form.type]),
+      precision: [formatter.priceDecimals, formatter.sizeDecimals]
     });
     
     // Skip redraw if data hasn't changed
@@ -71,7 +82,7 @@ const DepthChart = ({ orderBook, simulation }: DepthChartProps) => {
     // Chart dimensions
     const width = rect.width;
     const height = rect.height;
-    const padding = { top: 10, right: 10, bottom: 20, left: 40 };
+    const padding = { top: 10, right: 10, bottom: 20, left: 48 };
     
     // Scale functions
     const scaleX = (price: number) => {
@@ -161,20 +172,25 @@ const DepthChart = ({ orderBook, simulation }: DepthChartProps) => {
       ctx.stroke();
     }
     
-    // Draw simulation order line if applicable
-    if (simulation?.active && simulation.form.type === 'Limit' && simulation.form.price) {
-      const simPrice = simulation.form.price;
+    // Draw a line per simulation: solid at a limit price, dashed at a market order's worst fill
+    simulations.forEach(simulation => {
+      const simPrice = getSimulationPrice(simulation);
+      if (!simulation.active || !simPrice || simPrice < minPrice || simPrice > maxPrice) return;
+      
       const simX = scaleX(simPrice);
+      const color = simulation.form.side === 'Buy' ? '#0055ff' : '#ff0055';
       
-      ctx.strokeStyle = simulation.form.side === 'Buy' ? '#0055ff' : '#ff0055';
+      ctx.strokeStyle = color;
       ctx.lineWidth = 2;
+      ctx.setLineDash(simulation.form.type === 'Market' ? [4, 3] : []);
       ctx.beginPath();
       ctx.moveTo(simX, padding.top);
       ctx.lineTo(simX, height - padding.bottom);
       ctx.stroke();
+      ctx.setLineDash([]);
       
       // Draw simulation point
-      ctx.fillStyle = simulation.form.side === 'Buy' ? '#0055ff' : '#ff0055';
+      ctx.fillStyle = color;
       ctx.beginPath();
       ctx.arc(simX, padding.top, 5, 0, Math.PI * 2);
       ctx.fill();
@@ -183,10 +199,40 @@ const DepthChart = ({ orderBook, simulation }: DepthChartProps) => {
       ctx.fillStyle = '#000';
       ctx.font = '10px sans-serif';
       ctx.textAlign = 'center';
-      ctx.fillText(`${simulation.form.price}`, simX, height - padding.bottom + 15);
-    }
+      ctx.fillText(formatter.formatPrice(simPrice), simX, height - padding.bottom + 15);
+    });
+    
+    // Draw a dotted line per armed conditional order at its trigger price
+    conditionalOrders.forEach(order => {
+      const { triggerPrice } = order;
+      if (triggerPrice < minPrice || triggerPrice > maxPrice) return;
+      
+      const triggerX = scaleX(triggerPrice);
+      
+      ctx.strokeStyle = TRIGGER_COLOR;
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([2, 3]);
+      ctx.beginPath();
+      ctx.moveTo(triggerX, padding.top);
+      ctx.lineTo(triggerX, height - padding.bottom);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      
+      // Triangle marker pointing down onto the trigger line
+      ctx.fillStyle = TRIGGER_COLOR;
+      ctx.beginPath();
+      ctx.moveTo(triggerX - 5, padding.top);
+      ctx.lineTo(triggerX + 5, padding.top);
+      ctx.lineTo(triggerX, padding.top + 7);
+      ctx.closePath();
+      ctx.fill();
+      
+      ctx.font = '10px sans-serif';
+      ctx.textAlign = 'left';
+      ctx.fillText(ORDER_TYPE_LABELS[order.form.type], triggerX + 7, padding.top + 7);
+    });
     
-    // Draw price labels
+        // Draw price labels
     ctx.fillStyle = '#888';
     ctx.font = '10px sans-serif';
     ctx.textAlign = 'center';
@@ -195,7 +241,7 @@ const DepthChart = ({ orderBook, simulation }: DepthChartProps) => {
     for (let i = 0; i <= 5; i++) {
       const price = minPrice + priceStep * i;
       const x = scaleX(price);
-      ctx.fillText(price.toFixed(1), x, height - 5);
+      ctx.fillText(formatter.formatPrice(price), x, height - 5);
     }
     
     // Draw volume labels
@@ -204,15 +250,16 @@ const DepthChart = ({ orderBook, simulation }: DepthChartProps) => {
     for (let i = 0; i <= 4; i++) {
       const volume = volumeStep * i;
       const y = scaleY(volume);
-      ctx.fillText(volume.toFixed(1), padding.left - 5, y + 3);
+      // Axis labels are always abbreviated to fit the margin
+      ctx.fillText(formatter.formatSize(volume, true), padding.left - 5, y + 3);
     }
     
-  }, [orderBook, simulation]);
+  }, [orderBook, simulations, conditionalOrders, formatter]);
   
   // Call the render function when data changes
   useEffect(() => {
     renderChart();
-  }, [orderBook.bids, orderBook.asks, simulation, renderChart]);
+  }, [orderBook.bids, orderBook.asks, simulations, conditionalOrders, renderChart]);
   
   return (
     <Card className="shadow-lg">
@@ -236,6 +283,12 @@ const DepthChart = ({ orderBook, simulation }: DepthChartProps) => {
             <div className={cn("w-3 h-3 rounded-full bg-red-500 mr-1")} />
             <span>Asks</span>
           </div>
+          {conditionalOrders.length > 0 && (
+            <div className="flex items-center ml-4">
+              <div className={cn("w-3 h-3 rounded-full bg-amber-500 mr-1")} />
+              <span>Trigger</span>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
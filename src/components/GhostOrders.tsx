@@ -0,0 +1,141 @@
+import { memo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, X } from 'lucide-react';
+import { Exchange, GhostOrder, GhostOrderStatus } from '@/types/orderbook';
+import { InstrumentFormatter } from '@/lib/format';
+import { cn, formatDuration, formatNumber, formatTimestamp } from '@/lib/utils';
+import { isGhostOrderLive } from '@/services/ghostOrderService';
+
+interface GhostOrdersProps {
+  orders: GhostOrder[];
+  onCancel: (id: string) => void;
+  onClear: () => void;
+  // Formatting of the displayed market; orders on other markets fall back to plain numbers
+  exchange: Exchange;
+  symbol: string;
+  formatter: InstrumentFormatter;
+}
+
+const STATUS_LABELS: Record<GhostOrderStatus, string> = {
+  working: 'Working',
+  'partially-filled': 'Partial',
+  filled: 'Filled',
+  cancelled: 'Cancelled'
+};
+
+const plainFormatter = {
+  formatPrice: (value: number) => formatNumber(value, 8),
+  formatSize: (value: number) => formatNumber(value, 8)
+};
+
+const GhostOrderRow = ({ order, onCancel, formatter }: {
+  order: GhostOrder;
+  onCancel: (id: string) => void;
+  formatter: Pick<InstrumentFormatter, 'formatPrice' | 'formatSize'>;
+}) => {
+  const [showFills, setShowFills] = useState(false);
+  const { form, status, queueAhead, initialQueueAhead, filledQuantity, averagePrice, fills, timeToFill } = order;
+  const { formatPrice, formatSize } = formatter;
+  const isLive = isGhostOrderLive(order);
+
+  return (
+    <div className="space-y-1 border rounded-md p-2 text-sm">
+      <div className="flex justify-between items-center">
+        <span className="font-medium">
+          <span className={form.side === 'Buy' ? "text-green-600" : "text-red-600"}>{form.side}</span>
+          {' '}{formatSize(form.quantity)} {form.symbol} @ {formatPrice(form.price ?? 0)}
+        </span>
+        <div className="flex items-center space-x-1">
+          <Badge variant={status === 'filled' ? "default" : "outline"}>{STATUS_LABELS[status]}</Badge>
+          {isLive && (
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onCancel(order.id)} aria-label="Cancel">
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <Progress value={(filledQuantity / form.quantity) * 100} className="h-1" />
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        <div>
+          <div className="text-muted-foreground">Queue Ahead</div>
+          <div>{isLive ? `${formatSize(queueAhead)} / ${formatSize(initialQueueAhead)}` : '-'}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Filled</div>
+          <div>{formatSize(filledQuantity)}{averagePrice !== null ? ` @ ${formatPrice(averagePrice)}` : ''}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Time to Fill</div>
+          <div>{status === 'filled' && timeToFill !== undefined ? formatDuration(timeToFill) : '-'}</div>
+        </div>
+      </div>
+      {fills.length > 0 && (
+        <Collapsible open={showFills} onOpenChange={setShowFills}>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="w-full justify-between px-0 h-6">
+              <span className="text-xs text-muted-foreground">
+                {form.exchange}, placed {formatTimestamp(order.placedAt)}, {fills.length} {fills.length === 1 ? 'fill' : 'fills'}
+              </span>
+              <ChevronDown className={cn("h-3 w-3 transition-transform", showFills && "rotate-180")} />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-muted-foreground border-b">
+                  <th className="text-left py-1 px-1">Time</th>
+                  <th className="text-right py-1 px-1">Price</th>
+                  <th className="text-right py-1 px-1">Quantity</th>
+                  <th className="text-right py-1 px-1">Source</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fills.map((fill, index) => (
+                  <tr key={`${fill.timestamp}-${index}`} className="text-right">
+                    <td className="text-left py-0.5 px-1">{formatTimestamp(fill.timestamp)}</td>
+                    <td className="py-0.5 px-1">{formatPrice(fill.price)}</td>
+                    <td className="py-0.5 px-1">{formatSize(fill.quantity)}</td>
+                    <td className="py-0.5 px-1 capitalize">{fill.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  );
+};
+
+const GhostOrders = ({ orders, onCancel, onClear, exchange, symbol, formatter }: GhostOrdersProps) => {
+  if (!orders.length) return null;
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-lg">Ghost Orders</CardTitle>
+          <Button variant="outline" size="sm" onClick={onClear} disabled={orders.every(isGhostOrderLive)}>
+            Clear done
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2 pt-2 max-h-96 overflow-auto">
+        {orders.map(order => (
+          <GhostOrderRow
+            key={order.id}
+            order={order}
+            onCancel={onCancel}
+            formatter={order.form.exchange === exchange && order.form.symbol === symbol ? formatter : plainFormatter}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default memo(GhostOrders);
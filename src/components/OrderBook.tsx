@@ -1,16 +1,49 @@
-import { memo, useEffect, useRef } from 'react';
+import { memo, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
-import { OrderLevel, OrderSimulation, OrderSide } from '@/types/orderbook';
+import { ConnectionState, Exchange, GhostOrder, OrderLevel, OrderSide, OrderSimulation } from '@/types/orderbook';
+import { Button } from '@/components/ui/button';
+import { getConnectionLabel } from '@/components/ConnectionStatus';
 import { cn } from '@/lib/utils';
+import { InstrumentFormatter } from '@/lib/format';
+import { getExchangeAdapter } from '@/services/exchanges';
+import { DEFAULT_DISPLAY_DEPTH, getSimulationPrice, trimOrderBook } from '@/services/orderbookService';
 
 interface OrderBookProps {
   bids: OrderLevel[];
   asks: OrderLevel[];
-  simulation: OrderSimulation | null;
-  isConnected: boolean;
+  // Active simulations and live ghost orders of the displayed market, highlighted at their price
+  simulations: OrderSimulation[];
+  ghostOrders: GhostOrder[];
+  connectionState: ConnectionState;
+  onReconnect?: () => void;
+  formatter: InstrumentFormatter;
+  // Venues merged into a consolidated ladder, shown as a colour legend
+  venues?: Exchange[];
+  // Levels shown per side; the full-depth book is trimmed here
+  rows?: number;
 }
 
-const OrderBook = ({ bids, asks, simulation, isConnected }: OrderBookProps) => {
+const OrderBook = ({
+  bids: allBids,
+  asks: allAsks,
+  simulations,
+  ghostOrders,
+  connectionState,
+  onReconnect,
+  formatter,
+  venues,
+  rows = DEFAULT_DISPLAY_DEPTH
+}: OrderBookProps) => {
+  const { bids, asks } = useMemo(
+    () => trimOrderBook({ bids: allBids, asks: allAsks, timestamp: 0 }, rows),
+    [allBids, allAsks, rows]
+  );
+  const { formatPrice, formatSize } = formatter;
+  const { status } = connectionState;
+  const isLive = status === 'subscribed' || status === 'stale';
+  const isPending = status === 'connecting' || status === 'open' || status === 'reconnecting' || status === 'idle';
+  const isStale = status === 'stale';
+
   // Use refs to track previous values for optimized rendering
   const prevAsksRef = useRef<string>('');
   const prevBidsRef = useRef<string>('');
@@ -32,52 +65,94 @@ const OrderBook = ({ bids, asks, simulation, isConnected }: OrderBookProps) => {
     }
 
     return levels.map((level, index) => {
-      const isSimulated = simulation?.active && 
-        simulation.form.side === side && 
-        simulation.form.type === 'Limit' && 
-        simulation.form.price === level.price;
+      const simulated = simulations.filter(simulation => getSimulationPrice(simulation) === level.price);
+      const ghosts = ghostOrders.filter(order => order.form.side === side && order.form.price === level.price);
+      const venueShares = level.venues ? Object.entries(level.venues) : null;
+      const tooltip = [
+        ...(venueShares?.map(([exchange, quantity]) => `${exchange}: ${formatSize(quantity)}`) ?? []),
+        ...simulated.map(({ form }) => `Simulated ${form.side} ${form.type} ${formatSize(form.quantity)}`),
+        ...ghosts.map(order => `Ghost ${formatSize(order.form.quantity - order.filledQuantity)}, ${formatSize(order.queueAhead)} ahead`)
+      ];
 
       return (
         <tr 
           key={`${level.price}-${index}`}
+          title={tooltip.length ? tooltip.join('\n') : undefined}
           className={cn(
             "text-right",
-            isSimulated ? "bg-yellow-100 dark:bg-yellow-900/30 border border-yellow-300" : ""
+            simulated.length || ghosts.length ? "bg-yellow-100 dark:bg-yellow-900/30 border border-yellow-300" : ""
           )}
         >
           <td className="py-1 px-2">
             <span className={cn(
               isBid ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
             )}>
-              {level.price.toFixed(2)}
+              {formatPrice(level.price)}
             </span>
           </td>
-          <td className="py-1 px-2">{level.quantity.toFixed(4)}</td>
-          <td className="py-1 px-2">{level.total?.toFixed(4) || '-'}</td>
+          <td className="py-1 px-2">{formatSize(level.quantity)}</td>
+          <td className="py-1 px-2">{level.total !== undefined ? formatSize(level.total) : '-'}</td>
           <td className="py-1 px-1 w-1/4 relative">
-            <div className={cn(
-              "absolute top-0 bottom-0 opacity-20",
-              isBid ? "bg-green-500 right-0" : "bg-red-500 left-0"
-            )} 
-            style={{ width: `${level.percentage || 0}%` }} />
+            {venueShares ? (
+              // Consolidated levels stack one segment per venue, sized by its share of the level
+              <div className={cn(
+                "absolute top-0 bottom-0 flex opacity-50",
+                isBid ? "right-0 flex-row-reverse" : "left-0"
+              )}
+              style={{ width: `${level.percentage || 0}%` }}>
+                {venueShares.map(([exchange, quantity]) => (
+                  <div
+                    key={exchange}
+                    className="h-full"
+                    style={{
+                      width: `${(quantity / level.quantity) * 100}%`,
+                      backgroundColor: getExchangeAdapter(exchange)?.color
+                    }}
+                  />
+                ))}
+              </div>
+            ) : (
+              <div className={cn(
+                "absolute top-0 bottom-0 opacity-20",
+                isBid ? "bg-green-500 right-0" : "bg-red-500 left-0"
+              )} 
+              style={{ width: `${level.percentage || 0}%` }} />
+            )}
           </td>
         </tr>
       );
     });
   };
 
+  const spread = (asks[0]?.price || 0) - (bids[0]?.price || 0);
+
   return (
     <Card className="shadow-lg">
       <CardContent className="p-4 relative">
-        {!isConnected && (
+        {!isLive && (
           <div className="absolute inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center z-10">
             <div className="text-center">
-              <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full mx-auto mb-2"></div>
-              <p className="text-sm text-muted-foreground">Connecting...</p>
+              {isPending && (
+                <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full mx-auto mb-2"></div>
+              )}
+              <p className="text-sm text-muted-foreground">{getConnectionLabel(connectionState)}</p>
+              {!isPending && onReconnect && (
+                <Button size="sm" variant="outline" className="mt-2" onClick={onReconnect}>
+                  Reconnect
+                </Button>
+              )}
             </div>
           </div>
         )}
-        <div className="overflow-auto max-h-[50vh]">
+        {isStale && (
+          <div className="absolute inset-0 bg-background/60 flex items-center justify-center z-10">
+            <div className="text-center rounded-md border border-yellow-300 bg-yellow-50 dark:bg-yellow-900/30 px-3 py-2">
+              <p className="text-sm font-medium text-yellow-800 dark:text-yellow-400">Feed stale</p>
+              <p className="text-xs text-muted-foreground">Prices may be outdated, reconnecting...</p>
+            </div>
+          </div>
+        )}
+        <div className={cn("overflow-auto max-h-[50vh]", isStale && "opacity-50")}>
           <table className="w-full text-sm">
             <thead className="sticky top-0 bg-background">
               <tr className="text-muted-foreground border-b">
@@ -95,7 +170,7 @@ const OrderBook = ({ bids, asks, simulation, isConnected }: OrderBookProps) => {
               {bids.length > 0 && asks.length > 0 && (
                 <tr className="border-y bg-muted/50">
                   <td colSpan={4} className="text-center py-1 text-xs text-muted-foreground">
-                    Spread: {((asks[0]?.price || 0) - (bids[0]?.price || 0)).toFixed(2)} ({(((asks[0]?.price || 0) - (bids[0]?.price || 0)) / (asks[0]?.price || 1) * 100).toFixed(2)}%)
+                    Spread: {formatPrice(spread)} ({(spread / (asks[0]?.price || 1) * 100).toFixed(2)}%)
                   </td>
                 </tr>
               )}
@@ -105,6 +180,16 @@ const OrderBook = ({ bids, asks, simulation, isConnected }: OrderBookProps) => {
             </tbody>
           </table>
         </div>
+        {venues && venues.length > 0 && (
+          <div className="flex flex-wrap justify-center gap-3 mt-2 text-xs">
+            {venues.map(exchange => (
+              <div key={exchange} className="flex items-center">
+                <div className="w-3 h-3 rounded-full mr-1" style={{ backgroundColor: getExchangeAdapter(exchange)?.color }} />
+                <span>{getExchangeAdapter(exchange)?.name ?? exchange}</span>
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -17,31 +17,52 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from '@/components/ui/use-toast';
-import { OrderForm, Exchange, OrderType, OrderSide, DelayOption } from '@/types/orderbook';
-import { getAvailableSymbols } from '@/services/orderbookService';
-import { useState, useEffect } from 'react';
+import { OrderForm, Exchange, OrderType, OrderSide, DelayOption, TriggerSource } from '@/types/orderbook';
+import { getExchangeAdapter, getExchangeAdapters } from '@/services/exchanges';
+import { validateOrderForInstrument } from '@/services/instrumentService';
+import {
+  ORDER_TYPE_LABELS,
+  hasLimitPrice,
+  hasTriggerPrice,
+  isConditionalOrder,
+  validateTrigger
+} from '@/services/conditionalOrderService';
+import { getDecimals } from '@/lib/format';
+import { getFeeTiers, getInstrumentType } from '@/services/feeService';
+import { useInstruments } from '@/hooks/useInstruments';
+
+const ORDER_TYPES = Object.keys(ORDER_TYPE_LABELS) as OrderType[];
 
 interface OrderSimulationFormProps {
   form: OrderForm;
   onFormChange: (updates: Partial<OrderForm>) => void;
   onSimulate: () => void;
   isProcessing: boolean;
+  // Current touch price, used to check the minimum notional of market orders
+  referencePrice?: number;
+  // Current price of the form's trigger source (mid or last trade), to check the trigger side
+  triggerReference?: number | null;
+  // Whether the venue streams trades, needed to trigger on the last trade
+  tradesSupported?: boolean;
 }
 
 const OrderSimulationForm = ({
   form,
   onFormChange,
   onSimulate,
-  isProcessing
+  isProcessing,
+  referencePrice,
+  triggerReference = null,
+  tradesSupported = false
 }: OrderSimulationFormProps) => {
   const { toast } = useToast();
-  const [availableSymbols, setAvailableSymbols] = useState<string[]>([]);
+  const { symbols: availableSymbols, getInstrument, isLoading: instrumentsLoading } = useInstruments(form.exchange);
+  const instrument = getInstrument(form.symbol);
+  const feeTiers = getFeeTiers(form.exchange, getInstrumentType(form.exchange, form.symbol));
 
-  // Update available symbols when exchange changes
-  useEffect(() => {
-    const symbols = getAvailableSymbols(form.exchange);
-    setAvailableSymbols(symbols);
-  }, [form.exchange]);
+  // Input steps follow the instrument's tick and lot sizes when known
+  const priceStep = instrument ? instrument.tickSize.toFixed(getDecimals(instrument.tickSize)) : '0.01';
+  const quantityStep = instrument ? instrument.lotSize.toFixed(getDecimals(instrument.lotSize)) : '0.001';
 
   const validateForm = (): boolean => {
     if (!form.symbol) {
@@ -62,7 +83,7 @@ const OrderSimulationForm = ({
       return false;
     }
 
-    if (form.type === 'Limit' && (!form.price || form.price <= 0)) {
+    if (hasLimitPrice(form.type) && (!form.price || form.price <= 0)) {
       toast({
         title: "Invalid price",
         description: "Please enter a valid price for limit orders",
@@ -71,6 +92,45 @@ const OrderSimulationForm = ({
       return false;
     }
 
+    if (hasTriggerPrice(form.type) && (!form.triggerPrice || form.triggerPrice <= 0)) {
+      toast({
+        title: "Invalid trigger price",
+        description: "Please enter a valid trigger price",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    if (form.type === 'TrailingStop' && (!form.trailingDistance || form.trailingDistance <= 0)) {
+      toast({
+        title: "Invalid trailing distance",
+        description: "Please enter a trailing distance greater than zero",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    if (isConditionalOrder(form) && form.triggerSource === 'last' && !tradesSupported) {
+      toast({
+        title: "No trade feed",
+        description: "This exchange does not stream trades, trigger on the mid instead",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    const triggerError = validateTrigger(form, triggerReference);
+    if (triggerError) {
+      toast({ ...triggerError, variant: "destructive" });
+      return false;
+    }
+
+    const instrumentError = validateOrderForInstrument(form, instrument, referencePrice);
+    if (instrumentError) {
+      toast({ ...instrumentError, variant: "destructive" });
+      return false;
+    }
+
     return true;
   };
 
@@ -97,9 +157,9 @@ const OrderSimulationForm = ({
               <SelectValue placeholder="Select Exchange" />
             </SelectTrigger>
             <SelectContent position="popper">
-              <SelectItem value="OKX">OKX</SelectItem>
-              <SelectItem value="Bybit">Bybit</SelectItem>
-              <SelectItem value="Deribit">Deribit</SelectItem>
+              {getExchangeAdapters().map(adapter => (
+                <SelectItem key={adapter.id} value={adapter.id}>{adapter.name}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -112,11 +172,13 @@ const OrderSimulationForm = ({
             onValueChange={(value) => onFormChange({ symbol: value })}
           >
             <SelectTrigger id="symbol">
-              <SelectValue placeholder="Select Symbol" />
+              <SelectValue placeholder={instrumentsLoading ? "Loading instruments..." : "Select Symbol"} />
             </SelectTrigger>
-            <SelectContent position="popper">
+            <SelectContent position="popper" className="max-h-72">
               {availableSymbols.map(symbol => (
-                <SelectItem key={symbol} value={symbol}>{symbol}</SelectItem>
+                <SelectItem key={symbol} value={symbol}>
+                  {getExchangeAdapter(form.exchange)?.formatSymbol(symbol) ?? symbol}
+                </SelectItem>
               ))}
             </SelectContent>
           </Select>
@@ -129,16 +191,14 @@ const OrderSimulationForm = ({
             id="type"
             value={form.type}
             onValueChange={(value) => onFormChange({ type: value as OrderType })}
-            className="flex space-x-4"
+            className="flex flex-wrap gap-x-4 gap-y-2"
           >
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="Market" id="market" />
-              <Label htmlFor="market">Market</Label>
-            </div>
-            <div className="flex items-center space-x-2">
-              <RadioGroupItem value="Limit" id="limit" />
-              <Label htmlFor="limit">Limit</Label>
-            </div>
+            {ORDER_TYPES.map(type => (
+              <div key={type} className="flex items-center space-x-2">
+                <RadioGroupItem value={type} id={`type-${type}`} />
+                <Label htmlFor={`type-${type}`}>{ORDER_TYPE_LABELS[type]}</Label>
+              </div>
+            ))}
           </RadioGroup>
         </div>
 
@@ -162,14 +222,63 @@ const OrderSimulationForm = ({
           </RadioGroup>
         </div>
 
+        {/* Trigger Inputs - Only for Conditional Orders */}
+        {hasTriggerPrice(form.type) && (
+          <div className="space-y-1.5">
+            <Label htmlFor="trigger-price">Trigger Price</Label>
+            <Input
+              id="trigger-price"
+              type="number"
+              step={priceStep}
+              min="0"
+              placeholder="Enter trigger price"
+              value={form.triggerPrice || ''}
+              onChange={(e) => onFormChange({ triggerPrice: parseFloat(e.target.value) || null })}
+            />
+          </div>
+        )}
+
+        {form.type === 'TrailingStop' && (
+          <div className="space-y-1.5">
+            <Label htmlFor="trailing-distance">Trailing Distance</Label>
+            <Input
+              id="trailing-distance"
+              type="number"
+              step={priceStep}
+              min="0"
+              placeholder="Distance from the best price"
+              value={form.trailingDistance || ''}
+              onChange={(e) => onFormChange({ trailingDistance: parseFloat(e.target.value) || null })}
+            />
+          </div>
+        )}
+
+        {isConditionalOrder(form) && (
+          <div className="space-y-1.5">
+            <Label htmlFor="trigger-source">Trigger On</Label>
+            <Select
+              value={form.triggerSource ?? 'mid'}
+              onValueChange={(value) => onFormChange({ triggerSource: value as TriggerSource })}
+            >
+              <SelectTrigger id="trigger-source">
+                <SelectValue placeholder="Select Trigger" />
+              </SelectTrigger>
+              <SelectContent position="popper">
+                <SelectItem value="mid">Mid price</SelectItem>
+                <SelectItem value="last" disabled={!tradesSupported}>Last trade</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Price Input - Only for Limit Orders */}
-        {form.type === 'Limit' && (
+        {hasLimitPrice(form.type) && (
           <div className="space-y-1.5">
-            <Label htmlFor="price">Price</Label>
+            <Label htmlFor="price">{form.type === 'StopLimit' ? 'Limit Price' : 'Price'}</Label>
             <Input
               id="price"
               type="number"
-              step="0.01"
+              step={priceStep}
               min="0"
               placeholder="Enter limit price"
               value={form.price || ''}
@@ -184,14 +293,36 @@ const OrderSimulationForm = ({
           <Input
             id="quantity"
             type="number"
-            step="0.001"
-            min="0.001"
+            step={quantityStep}
+            min={quantityStep}
             placeholder="Enter quantity"
             value={form.quantity}
             onChange={(e) => onFormChange({ quantity: parseFloat(e.target.value) || 0 })}
           />
         </div>
 
+        {/* Fee Tier */}
+        {feeTiers.length > 0 && (
+          <div className="space-y-1.5">
+            <Label htmlFor="fee-tier">Fee Tier</Label>
+            <Select
+              value={form.feeTier ?? feeTiers[0].name}
+              onValueChange={(value) => onFormChange({ feeTier: value })}
+            >
+              <SelectTrigger id="fee-tier">
+                <SelectValue placeholder="Select Fee Tier" />
+              </SelectTrigger>
+              <SelectContent position="popper">
+                {feeTiers.map(tier => (
+                  <SelectItem key={tier.name} value={tier.name}>
+                    {tier.name} ({(tier.maker * 100).toFixed(3)}% / {(tier.taker * 100).toFixed(3)}%)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Timing Controls */}
         <div className="space-y-1.5">
           <Label htmlFor="delay">Timing Simulation</Label>
@@ -3,13 +3,15 @@ import { Progress } from '@/components/ui/progress';
 import { OrderBook } from '@/types/orderbook';
 import { ArrowUp, ArrowDown } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { InstrumentFormatter } from '@/lib/format';
 import { memo } from 'react';
 
 interface OrderbookImbalanceProps {
   orderBook: OrderBook;
+  formatter: InstrumentFormatter;
 }
 
-const OrderbookImbalance = memo(({ orderBook }: OrderbookImbalanceProps) => {
+const OrderbookImbalance = memo(({ orderBook, formatter }: OrderbookImbalanceProps) => {
   if (!orderBook.bids.length || !orderBook.asks.length) {
     return (
       <Card className="shadow-lg">
@@ -72,8 +74,8 @@ const OrderbookImbalance = memo(({ orderBook }: OrderbookImbalanceProps) => {
           </div>
           
           <div className="flex justify-between text-xs">
-            <span>Bids: {bidVolume.toFixed(2)}</span>
-            <span>Asks: {askVolume.toFixed(2)}</span>
+            <span>Bids: {formatter.formatSize(bidVolume)}</span>
+            <span>Asks: {formatter.formatSize(askVolume)}</span>
           </div>
           
           <div className={cn(
@@ -0,0 +1,161 @@
+import { memo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown } from 'lucide-react';
+import { Exchange, PaperAccount } from '@/types/orderbook';
+import { formatDecimal } from '@/lib/format';
+import { cn, formatNumber, formatTimestamp } from '@/lib/utils';
+import { getBalances, getPositionKey, getSettlementCurrency, getUnrealizedPnl } from '@/services/paperTradingService';
+import { getExchangeAdapter } from '@/services/exchanges';
+
+interface PaperTradingProps {
+  account: PaperAccount;
+  // Venue whose balances are shown
+  exchange: Exchange;
+  onReset: () => void;
+}
+
+const RECENT_FILLS = 20;
+// PnL settled in a coin (inverse contracts, coin-margined options) needs more precision than fiat
+const FIAT_PNL_DECIMALS = 2;
+const COIN_PNL_DECIMALS = 8;
+
+const getPnlColor = (value: number) => {
+  if (value > 0) return "text-green-600";
+  if (value < 0) return "text-red-600";
+  return "";
+};
+
+const PaperTrading = ({ account, exchange, onReset }: PaperTradingProps) => {
+  const [showFills, setShowFills] = useState(false);
+  const balances = Object.entries(getBalances(account, exchange)).filter(([, amount]) => amount !== 0);
+  const positions = account.positions.map(position => {
+    const mark = account.marks[getPositionKey(position.exchange, position.symbol)];
+    const settlement = getSettlementCurrency(position);
+    const decimals = settlement === position.base ? COIN_PNL_DECIMALS : FIAT_PNL_DECIMALS;
+    return { position, mark, settlement, decimals, unrealizedPnl: getUnrealizedPnl(position, mark) };
+  });
+
+  // PnL can only be summed within one settlement currency
+  const totals = positions.reduce<Record<string, { realized: number, unrealized: number, fees: number, decimals: number }>>(
+    (sum, { position, settlement, decimals, unrealizedPnl }) => {
+      const total = sum[settlement] ?? { realized: 0, unrealized: 0, fees: 0, decimals };
+      sum[settlement] = {
+        realized: total.realized + position.realizedPnl,
+        unrealized: total.unrealized + unrealizedPnl,
+        fees: total.fees + position.fees,
+        decimals: Math.max(total.decimals, decimals)
+      };
+      return sum;
+    },
+    {}
+  );
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-lg">Paper Account</CardTitle>
+          <Button variant="outline" size="sm" onClick={onReset}>
+            Reset
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 pt-2 text-sm">
+        <div>
+          <div className="text-muted-foreground mb-1">
+            Balances on {getExchangeAdapter(exchange)?.name ?? exchange}
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            {balances.map(([asset, amount]) => (
+              <div key={asset}>
+                <span className="text-muted-foreground mr-1">{asset}</span>
+                <span className="font-medium">{formatNumber(amount, 8)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {positions.length > 0 && (
+          <div className="overflow-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-muted-foreground border-b">
+                  <th className="text-left py-1 px-1">Position</th>
+                  <th className="text-right py-1 px-1">Qty</th>
+                  <th className="text-right py-1 px-1">Entry</th>
+                  <th className="text-right py-1 px-1">Mark</th>
+                  <th className="text-right py-1 px-1">Unrealized</th>
+                  <th className="text-right py-1 px-1">Realized</th>
+                </tr>
+              </thead>
+              <tbody>
+                {positions.map(({ position, mark, settlement, decimals, unrealizedPnl }) => (
+                  <tr key={getPositionKey(position.exchange, position.symbol)} className="text-right">
+                    <td className="text-left py-0.5 px-1">
+                      {position.symbol}
+                      <div className="text-muted-foreground">{position.exchange}</div>
+                    </td>
+                    <td className={cn("py-0.5 px-1", getPnlColor(position.quantity))}>{formatNumber(position.quantity, 8)}</td>
+                    <td className="py-0.5 px-1">{position.quantity ? formatNumber(position.averageEntryPrice, 8) : '-'}</td>
+                    <td className="py-0.5 px-1">{mark !== undefined ? formatNumber(mark, 8) : '-'}</td>
+                    <td className={cn("py-0.5 px-1", getPnlColor(unrealizedPnl))} title={settlement}>{formatDecimal(unrealizedPnl, decimals)}</td>
+                    <td className={cn("py-0.5 px-1", getPnlColor(position.realizedPnl))} title={settlement}>{formatDecimal(position.realizedPnl, decimals)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {Object.entries(totals).map(([currency, { realized, unrealized, fees, decimals }]) => (
+          <div key={currency} className="grid grid-cols-3 gap-2 border-t pt-2">
+            <div>
+              <div className="text-muted-foreground text-xs">Realized ({currency})</div>
+              <div className={cn("font-medium", getPnlColor(realized))}>{formatDecimal(realized, decimals)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground text-xs">Unrealized ({currency})</div>
+              <div className={cn("font-medium", getPnlColor(unrealized))}>{formatDecimal(unrealized, decimals)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground text-xs">Fees ({currency})</div>
+              <div className="font-medium">{formatDecimal(fees, decimals)}</div>
+            </div>
+          </div>
+        ))}
+
+        {account.fills.length > 0 && (
+          <Collapsible open={showFills} onOpenChange={setShowFills}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="w-full justify-between px-0">
+                <span className="text-sm text-muted-foreground">Recent fills ({account.fills.length})</span>
+                <ChevronDown className={cn("h-4 w-4 transition-transform", showFills && "rotate-180")} />
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <table className="w-full text-xs">
+                <tbody>
+                  {account.fills.slice(0, RECENT_FILLS).map(fill => (
+                    <tr key={fill.id} className="text-right">
+                      <td className="text-left py-0.5 px-1">{formatTimestamp(fill.timestamp)}</td>
+                      <td className="text-left py-0.5 px-1">
+                        <span className={fill.side === 'Buy' ? "text-green-600" : "text-red-600"}>{fill.side}</span>
+                        {' '}{fill.symbol}
+                      </td>
+                      <td className="py-0.5 px-1">{formatNumber(fill.quantity, 8)} @ {formatNumber(fill.price, 8)}</td>
+                      <td className="py-0.5 px-1 text-muted-foreground">{fill.liquidity}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default memo(PaperTrading);
@@ -0,0 +1,106 @@
+import { memo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { RoutingPlan } from '@/services/routingService';
+import { getExchangeAdapter } from '@/services/exchanges';
+import { InstrumentFormatter, formatDecimal } from '@/lib/format';
+import { cn } from '@/lib/utils';
+
+interface RoutingResultsProps {
+  plan: RoutingPlan;
+  formatter: InstrumentFormatter;
+}
+
+const RoutingResults = ({ plan, formatter }: RoutingResultsProps) => {
+  const { side, quantity, filledQuantity, children, vwap, allInPrice, totalFees, bestSingleVenue, savings, savingsBps } = plan;
+  const { formatPrice, formatSize } = formatter;
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-lg">Smart Order Routing</CardTitle>
+          <Badge
+            variant={side === 'Buy' ? "default" : "destructive"}
+            className={side === 'Buy' ? "bg-green-600" : ""}
+          >
+            {children.length} {children.length === 1 ? 'venue' : 'venues'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 pt-2">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <div className="text-sm text-muted-foreground">Filled</div>
+            <div className="font-medium text-lg">{formatSize(filledQuantity)} / {formatSize(quantity)}</div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">VWAP</div>
+            <div className="font-medium text-lg">{filledQuantity ? formatPrice(vwap) : '-'}</div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">All-in Price</div>
+            <div className="font-medium text-lg">{filledQuantity ? formatPrice(allInPrice) : '-'}</div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">Taker Fees</div>
+            <div className="font-medium text-lg">{formatDecimal(totalFees, 2)}</div>
+          </div>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-muted-foreground border-b">
+              <th className="text-left py-1">Venue</th>
+              <th className="text-right py-1">Quantity</th>
+              <th className="text-right py-1">Avg Price</th>
+              <th className="text-right py-1">Fees</th>
+            </tr>
+          </thead>
+          <tbody>
+            {!children.length && (
+              <tr>
+                <td colSpan={4} className="text-center text-muted-foreground p-2">
+                  No liquidity available
+                </td>
+              </tr>
+            )}
+            {children.map(child => (
+              <tr key={child.exchange} className="text-right">
+                <td className="py-1 text-left">
+                  <span className="flex items-center">
+                    <span className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: getExchangeAdapter(child.exchange)?.color }} />
+                    {getExchangeAdapter(child.exchange)?.name ?? child.exchange}
+                  </span>
+                </td>
+                <td className="py-1">
+                  {formatSize(child.quantity)}
+                  <span className="text-xs text-muted-foreground ml-1">
+                    ({(child.quantity / filledQuantity * 100).toFixed(0)}%)
+                  </span>
+                </td>
+                <td className="py-1">{formatPrice(child.averagePrice)}</td>
+                <td className="py-1">{formatDecimal(child.fees, 2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {bestSingleVenue && (
+          <div className="flex justify-between items-center text-sm border-t pt-2">
+            <span className="text-muted-foreground">
+              vs. {getExchangeAdapter(bestSingleVenue.exchange)?.name ?? bestSingleVenue.exchange} only
+              {bestSingleVenue.filledQuantity < quantity && ` (fills ${formatSize(bestSingleVenue.filledQuantity)})`}
+              {' @ '}{formatPrice(bestSingleVenue.allInPrice)}
+            </span>
+            <span className={cn("font-medium", savings > 0 ? "text-green-600" : "text-muted-foreground")}>
+              Saves {formatDecimal(savings, 2)} ({savingsBps.toFixed(1)} bps)
+            </span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default memo(RoutingResults);
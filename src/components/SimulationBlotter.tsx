@@ -0,0 +1,220 @@
+import { memo, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowDown, ArrowUp, Pin, RotateCw, Trash2 } from 'lucide-react';
+import { ConditionalOrder, Exchange, OrderForm, OrderSimulation, SimulationRun } from '@/types/orderbook';
+import { InstrumentFormatter, createInstrumentFormatter, formatDecimal } from '@/lib/format';
+import { cn, formatTimestamp } from '@/lib/utils';
+import { ORDER_TYPE_LABELS } from '@/services/conditionalOrderService';
+
+interface SimulationBlotterProps {
+  runs: SimulationRun[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onRerun: (id: string) => void;
+  onTogglePin: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  canRerun: (run: SimulationRun) => boolean;
+  // Formatting of the displayed market; runs on other markets use default precision
+  exchange: Exchange;
+  symbol: string;
+  formatter: InstrumentFormatter;
+}
+
+type SortKey = 'time' | 'fill' | 'slippage' | 'impact' | 'cost';
+
+// Delayed runs are compared on their execution once it has happened
+const getOutcome = (simulation: OrderSimulation) => simulation.delayed?.result ?? simulation;
+
+const SORT_VALUES: Record<SortKey, (run: SimulationRun) => number> = {
+  time: run => run.updatedAt,
+  fill: run => getOutcome(run.simulation).fillPercentage,
+  slippage: run => getOutcome(run.simulation).slippage,
+  impact: run => getOutcome(run.simulation).marketImpact?.totalBps ?? -1,
+  cost: run => getOutcome(run.simulation).costs?.netCost ?? 0
+};
+
+const COLUMNS: { key: SortKey, label: string }[] = [
+  { key: 'time', label: 'Time' },
+  { key: 'fill', label: 'Fill' },
+  { key: 'slippage', label: 'Slip.' },
+  { key: 'impact', label: 'Impact' },
+  { key: 'cost', label: 'Net' }
+];
+
+const defaultFormatter = createInstrumentFormatter(undefined);
+
+const describePrice = (form: OrderForm, formatPrice: InstrumentFormatter['formatPrice']) => {
+  switch (form.type) {
+    case 'Limit':
+      return form.price ? `@ ${formatPrice(form.price)}` : '@ Mkt';
+    case 'Market':
+      return '@ Mkt';
+    case 'TrailingStop':
+      return `${ORDER_TYPE_LABELS[form.type]} ${formatPrice(form.trailingDistance ?? 0)}`;
+    case 'StopLimit':
+      return `${ORDER_TYPE_LABELS[form.type]} ${formatPrice(form.triggerPrice ?? 0)} @ ${formatPrice(form.price ?? 0)}`;
+    default:
+      return `${ORDER_TYPE_LABELS[form.type]} ${formatPrice(form.triggerPrice ?? 0)}`;
+  }
+};
+
+// Armed orders show how far the reference is from the trigger
+const describeTrigger = (conditional: ConditionalOrder, formatPrice: InstrumentFormatter['formatPrice']) => {
+  if (conditional.status === 'triggered') {
+    return conditional.triggeredAt ? `triggered ${formatTimestamp(conditional.triggeredAt)}` : 'triggered';
+  }
+  const reference = conditional.referencePrice !== null ? formatPrice(conditional.referencePrice) : '-';
+  return `armed at ${formatPrice(conditional.triggerPrice)}, ${conditional.form.triggerSource === 'last' ? 'last' : 'mid'} ${reference}`;
+};
+
+const SimulationBlotter = ({
+  runs,
+  selectedId,
+  onSelect,
+  onRerun,
+  onTogglePin,
+  onRemove,
+  onClear,
+  canRerun,
+  exchange,
+  symbol,
+  formatter
+}: SimulationBlotterProps) => {
+  const [sortKey, setSortKey] = useState<SortKey>('time');
+  const [descending, setDescending] = useState(true);
+
+  // Pinned runs stay on top whatever the sort order
+  const sortedRuns = useMemo(() => {
+    const direction = descending ? -1 : 1;
+    return [...runs].sort((a, b) => (
+      Number(b.pinned) - Number(a.pinned) || (SORT_VALUES[sortKey](a) - SORT_VALUES[sortKey](b)) * direction
+    ));
+  }, [runs, sortKey, descending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(true);
+    }
+  };
+
+  if (!runs.length) return null;
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-lg">Simulation Blotter</CardTitle>
+          <Button variant="outline" size="sm" onClick={onClear} disabled={runs.every(run => run.pinned)}>
+            Clear unpinned
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-2">
+        <div className="overflow-auto max-h-80">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-background">
+              <tr className="text-muted-foreground border-b">
+                <th className="py-1 px-1"></th>
+                <th className="text-left py-1 px-1">Order</th>
+                {COLUMNS.map(({ key, label }) => (
+                  <th key={key} className="text-right py-1 px-1">
+                    <button className="inline-flex items-center hover:text-foreground" onClick={() => handleSort(key)}>
+                      {label}
+                      {sortKey === key && (descending ? <ArrowDown className="h-3 w-3 ml-0.5" /> : <ArrowUp className="h-3 w-3 ml-0.5" />)}
+                    </button>
+                  </th>
+                ))}
+                <th className="py-1 px-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRuns.map(run => {
+                const { conditional } = run;
+                const form = conditional?.form ?? run.simulation.form;
+                const outcome = getOutcome(run.simulation);
+                const isArmed = conditional?.status === 'armed';
+                const isPending = isArmed || (run.simulation.delayed !== undefined && !run.simulation.delayed.result);
+                const { formatPrice, formatSize } = form.exchange === exchange && form.symbol === symbol ? formatter : defaultFormatter;
+
+                return (
+                  <tr
+                    key={run.id}
+                    onClick={() => onSelect(run.id)}
+                    className={cn("text-right cursor-pointer hover:bg-muted/50", run.id === selectedId && "bg-muted")}
+                  >
+                    <td className="py-1 px-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5"
+                        aria-label={run.pinned ? 'Unpin' : 'Pin'}
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          onTogglePin(run.id);
+                        }}
+                      >
+                        <Pin className={cn("h-3 w-3", run.pinned ? "fill-current" : "text-muted-foreground")} />
+                      </Button>
+                    </td>
+                    <td className="text-left py-1 px-1 whitespace-nowrap">
+                      <span className={form.side === 'Buy' ? "text-green-600" : "text-red-600"}>{form.side}</span>
+                      {' '}{formatSize(form.quantity)} {form.symbol}
+                      {' '}{describePrice(form, formatPrice)}
+                      <div className="text-muted-foreground">{form.exchange}{form.delay !== 'immediate' ? `, ${form.delay}` : ''}</div>
+                      {conditional && (
+                        <div className={isArmed ? "text-amber-600" : "text-muted-foreground"}>
+                          {describeTrigger(conditional, formatPrice)}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-1 px-1">{formatTimestamp(run.updatedAt)}</td>
+                    <td className="py-1 px-1">{isPending ? '...' : `${outcome.fillPercentage.toFixed(0)}%`}</td>
+                    <td className="py-1 px-1">{isArmed ? '-' : `${outcome.slippage.toFixed(2)}%`}</td>
+                    <td className="py-1 px-1" title={outcome.marketImpact ? undefined : outcome.impactUnavailable}>
+                      {outcome.marketImpact ? `${outcome.marketImpact.totalBps.toFixed(1)}bp` : '-'}
+                    </td>
+                    <td className="py-1 px-1">{outcome.costs ? formatDecimal(outcome.costs.netCost, 2, true) : '-'}</td>
+                    <td className="py-1 px-1 whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5"
+                        aria-label="Re-run against the current book"
+                        disabled={!canRerun(run)}
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          onRerun(run.id);
+                        }}
+                      >
+                        <RotateCw className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5"
+                        aria-label="Delete"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          onRemove(run.id);
+                        }}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default memo(SimulationBlotter);
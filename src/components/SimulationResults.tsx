@@ -1,19 +1,45 @@
-import { memo } from 'react';
-import { OrderSimulation } from '@/types/orderbook';
+import { memo, useState } from 'react';
+import { ConditionalOrder, GhostOrder, OrderSimulation } from '@/types/orderbook';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import { AlertTriangle, Clock, ArrowRight } from 'lucide-react';
-import { cn } from '@/lib/utils';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { AlertTriangle, Clock, ArrowRight, ChevronDown, Loader2 } from 'lucide-react';
+import { cn, formatDuration, formatTimestamp } from '@/lib/utils';
+import { InstrumentFormatter, formatDecimal } from '@/lib/format';
+import { getExchangeAdapter } from '@/services/exchanges';
+import { ORDER_TYPE_LABELS, hasLimitPrice } from '@/services/conditionalOrderService';
 
 interface SimulationResultsProps {
   simulation: OrderSimulation;
-  onReset: () => void;
+  onClose: () => void;
+  formatter: InstrumentFormatter;
+  // Live order holding the resting remainder of a limit simulation
+  ghostOrder?: GhostOrder;
+  // Trigger state of a conditional order; the simulation is inactive until it triggers
+  conditional?: ConditionalOrder;
 }
 
-const SimulationResults = ({ simulation, onReset }: SimulationResultsProps) => {
-  const { form, fillPercentage, marketImpact, slippage, timeToFill } = simulation;
+const SimulationResults = ({ simulation, onClose, formatter, ghostOrder, conditional }: SimulationResultsProps) => {
+  const {
+    form,
+    fillPercentage,
+    marketImpact,
+    impactUnavailable,
+    slippage,
+    fills,
+    averagePrice,
+    worstPrice,
+    remainingQuantity,
+    venueFills,
+    costs,
+    delayed
+  } = simulation;
+  const [showFills, setShowFills] = useState(false);
+  const venueAllocation = venueFills ? Object.entries(venueFills).sort(([, a], [, b]) => b - a) : [];
+  const filledQuantity = venueAllocation.reduce((sum, [, quantity]) => sum + quantity, 0);
+  const isArmed = conditional?.status === 'armed';
   
   const getSlippageColor = (slippage: number) => {
     if (slippage < 0.5) return "text-green-600";
@@ -21,12 +47,21 @@ const SimulationResults = ({ simulation, onReset }: SimulationResultsProps) => {
     return "text-red-600";
   };
   
-  const getImpactColor = (impact: number) => {
-    if (impact < 10) return "text-green-600";
-    if (impact < 25) return "text-yellow-600";
+  // Impact thresholds in basis points
+  const getImpactColor = (impactBps: number) => {
+    if (impactBps < 10) return "text-green-600";
+    if (impactBps < 25) return "text-yellow-600";
     return "text-red-600";
   };
   
+  // Drift is signed so that positive values are adverse
+  const getDriftColor = (change: number) => {
+    if (Math.abs(change) < 1e-9) return "text-muted-foreground";
+    return change > 0 ? "text-red-600" : "text-green-600";
+  };
+  
+  const formatSigned = (value: number, decimals: number) => `${value > 0 ? '+' : ''}${value.toFixed(decimals)}`;
+  
   const getFillColor = (percentage: number) => {
     if (percentage >= 95) return "bg-green-500";
     if (percentage >= 75) return "bg-yellow-500";
@@ -34,7 +69,19 @@ const SimulationResults = ({ simulation, onReset }: SimulationResultsProps) => {
     return "bg-red-500";
   };
   
-  const showWarning = slippage > 1 || marketImpact > 25 || fillPercentage < 50;
+  // Measured once the order has actually filled, rather than estimated
+  const getTimeToFill = () => {
+    if (isArmed) return 'Armed';
+    if (ghostOrder?.status === 'filled' && ghostOrder.timeToFill !== undefined) return formatDuration(ghostOrder.timeToFill);
+    if (ghostOrder?.status === 'cancelled') return 'Cancelled';
+    if (ghostOrder) return `Working, ${formatter.formatSize(ghostOrder.queueAhead)} ahead`;
+    if (delayed && !delayed.result) return 'Pending';
+    if (fillPercentage >= 100) return delayed ? formatDuration(delayed.executeAt - delayed.submittedAt) : 'Immediate';
+    return 'N/A';
+  };
+  
+  const highImpact = (marketImpact?.totalBps ?? 0) > 25;
+  const showWarning = !isArmed && (slippage > 1 || highImpact || fillPercentage < 50);
   
   return (
     <Card className="shadow-lg bg-background/95 backdrop-blur-sm">
@@ -45,7 +92,7 @@ const SimulationResults = ({ simulation, onReset }: SimulationResultsProps) => {
             variant={form.side === 'Buy' ? "default" : "destructive"}
             className={form.side === 'Buy' ? "bg-green-600" : ""}
           >
-            {form.side} {form.type}
+            {form.side} {ORDER_TYPE_LABELS[conditional?.form.type ?? form.type]}
           </Badge>
         </div>
       </CardHeader>
@@ -53,10 +100,43 @@ const SimulationResults = ({ simulation, onReset }: SimulationResultsProps) => {
         <div className="flex justify-between items-center text-sm">
           <span className="text-muted-foreground">Order Details</span>
           <span className="font-medium">
-            {form.quantity} {form.symbol} {form.type === 'Limit' ? `@ ${form.price}` : '@ Market'}
+            {formatter.formatSize(form.quantity)} {form.symbol} {hasLimitPrice(form.type) && form.price ? `@ ${formatter.formatPrice(form.price)}` : '@ Market'}
           </span>
         </div>
         
+        {conditional && (
+          <div className="space-y-1 border-t pt-2 text-sm">
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">Trigger Price</span>
+              <span className={cn("font-medium", isArmed && "text-amber-600")}>
+                {formatter.formatPrice(conditional.triggerPrice)}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">
+                {conditional.form.triggerSource === 'last' ? 'Last Trade' : 'Mid Price'}
+              </span>
+              <span className="font-medium">
+                {conditional.referencePrice !== null ? formatter.formatPrice(conditional.referencePrice) : '-'}
+              </span>
+            </div>
+            {conditional.extremePrice !== undefined && (
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground">Trailing From</span>
+                <span className="font-medium">{formatter.formatPrice(conditional.extremePrice)}</span>
+              </div>
+            )}
+            <div className="flex justify-between items-center text-xs text-muted-foreground">
+              <span>Armed {formatTimestamp(conditional.armedAt)}</span>
+              <span>
+                {conditional.triggeredAt
+                  ? `Triggered ${formatTimestamp(conditional.triggeredAt)} as ${form.type}`
+                  : 'Waiting for trigger'}
+              </span>
+            </div>
+          </div>
+        )}
+        
         <div className="space-y-1">
           <div className="flex justify-between items-center text-sm">
             <span className="text-muted-foreground">Fill Percentage</span>
@@ -68,9 +148,18 @@ const SimulationResults = ({ simulation, onReset }: SimulationResultsProps) => {
         <div className="grid grid-cols-2 gap-4">
           <div>
             <div className="text-sm text-muted-foreground">Market Impact</div>
-            <div className={cn("font-medium text-lg", getImpactColor(marketImpact))}>
-              {marketImpact.toFixed(1)}%
-            </div>
+            {marketImpact ? (
+              <div className={cn("font-medium text-lg", getImpactColor(marketImpact.totalBps))}>
+                {marketImpact.totalBps.toFixed(1)} bps
+              </div>
+            ) : (
+              <>
+                <div className="font-medium text-lg text-muted-foreground">N/A</div>
+                <div className="text-xs text-muted-foreground">
+                  {impactUnavailable ?? 'Collecting mid-price and volume history'}
+                </div>
+              </>
+            )}
           </div>
           
           <div>
@@ -81,36 +170,223 @@ const SimulationResults = ({ simulation, onReset }: SimulationResultsProps) => {
           </div>
           
           <div>
-            <div className="text-sm text-muted-foreground">Estimated Time</div>
+            <div className="text-sm text-muted-foreground">Time to Fill</div>
             <div className="font-medium text-lg flex items-center">
               <Clock className="h-4 w-4 mr-1" />
-              {timeToFill || 'N/A'}
+              {getTimeToFill()}
             </div>
           </div>
           
           <div>
             <div className="text-sm text-muted-foreground">Exchange</div>
-            <div className="font-medium text-lg">{form.exchange}</div>
+            <div className="font-medium text-lg">{venueFills ? 'All venues' : form.exchange}</div>
+          </div>
+        </div>
+        
+        {marketImpact && (
+          <div className="space-y-1 border-t pt-2 text-sm">
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">Temporary Impact</span>
+              <span className="font-medium">
+                {marketImpact.temporaryBps.toFixed(1)} bps ({formatDecimal(marketImpact.temporaryCost, 2)})
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">Permanent Impact</span>
+              <span className="font-medium">
+                {marketImpact.permanentBps.toFixed(1)} bps ({formatDecimal(marketImpact.permanentCost, 2)})
+              </span>
+            </div>
+            <div className="flex justify-between items-center text-xs text-muted-foreground">
+              <span>Participation {(marketImpact.participation * 100).toFixed(3)}% of daily volume</span>
+              <span>Daily vol {(marketImpact.volatility * 100).toFixed(2)}%</span>
+            </div>
+          </div>
+        )}
+        
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <div>
+            <div className="text-muted-foreground">Avg Price</div>
+            <div className="font-medium">{averagePrice !== null ? formatter.formatPrice(averagePrice) : '-'}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Worst Fill</div>
+            <div className="font-medium">{worstPrice !== null ? formatter.formatPrice(worstPrice) : '-'}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Unfilled</div>
+            <div className="font-medium">{formatter.formatSize(remainingQuantity)}</div>
           </div>
         </div>
         
+        {fills.length > 0 && (
+          <Collapsible open={showFills} onOpenChange={setShowFills}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="w-full justify-between px-0">
+                <span className="text-sm text-muted-foreground">
+                  Fill ladder ({fills.length} {fills.length === 1 ? 'level' : 'levels'})
+                </span>
+                <ChevronDown className={cn("h-4 w-4 transition-transform", showFills && "rotate-180")} />
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <div className="overflow-auto max-h-64">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-background">
+                    <tr className="text-muted-foreground border-b">
+                      <th className="text-right py-1 px-1">Price</th>
+                      <th className="text-right py-1 px-1">Quantity</th>
+                      <th className="text-right py-1 px-1">Notional</th>
+                      <th className="text-right py-1 px-1">Cum. Qty</th>
+                      <th className="text-right py-1 px-1">VWAP</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {fills.map((fill, index) => (
+                      <tr key={`${fill.price}-${index}`} className="text-right">
+                        <td className="py-0.5 px-1">{formatter.formatPrice(fill.price)}</td>
+                        <td className="py-0.5 px-1">{formatter.formatSize(fill.quantity)}</td>
+                        <td className="py-0.5 px-1">{formatDecimal(fill.notional, 2)}</td>
+                        <td className="py-0.5 px-1">{formatter.formatSize(fill.cumulativeQuantity)}</td>
+                        <td className="py-0.5 px-1">{formatter.formatPrice(fill.vwap)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+        
+        {delayed && (
+          <div className="space-y-1 border-t pt-2 text-sm">
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">Delayed Execution</span>
+              <span className="text-xs text-muted-foreground">
+                Submitted {formatTimestamp(delayed.submittedAt)}
+              </span>
+            </div>
+            {delayed.result && delayed.drift ? (
+              <>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-muted-foreground border-b">
+                      <th className="text-left py-1 px-1"></th>
+                      <th className="text-right py-1 px-1">Arrival</th>
+                      <th className="text-right py-1 px-1">Execution</th>
+                      <th className="text-right py-1 px-1">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr className="text-right">
+                      <td className="text-left py-0.5 px-1 text-muted-foreground">Fill</td>
+                      <td className="py-0.5 px-1">{fillPercentage.toFixed(1)}%</td>
+                      <td className="py-0.5 px-1">{delayed.result.fillPercentage.toFixed(1)}%</td>
+                      <td className={cn("py-0.5 px-1", getDriftColor(-delayed.drift.fillChange))}>
+                        {formatSigned(delayed.drift.fillChange, 1)} pp
+                      </td>
+                    </tr>
+                    <tr className="text-right">
+                      <td className="text-left py-0.5 px-1 text-muted-foreground">VWAP</td>
+                      <td className="py-0.5 px-1">{averagePrice !== null ? formatter.formatPrice(averagePrice) : '-'}</td>
+                      <td className="py-0.5 px-1">
+                        {delayed.result.averagePrice !== null ? formatter.formatPrice(delayed.result.averagePrice) : '-'}
+                      </td>
+                      <td className={cn("py-0.5 px-1", getDriftColor(delayed.drift.vwapChangeBps ?? 0))}>
+                        {delayed.drift.vwapChangeBps !== null ? `${formatSigned(delayed.drift.vwapChangeBps, 1)} bps` : '-'}
+                      </td>
+                    </tr>
+                    <tr className="text-right">
+                      <td className="text-left py-0.5 px-1 text-muted-foreground">Slippage</td>
+                      <td className="py-0.5 px-1">{slippage.toFixed(2)}%</td>
+                      <td className="py-0.5 px-1">{delayed.result.slippage.toFixed(2)}%</td>
+                      <td className={cn("py-0.5 px-1", getDriftColor(delayed.drift.slippageChange))}>
+                        {formatSigned(delayed.drift.slippageChange, 2)} pp
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Cost of Hesitation</span>
+                  <span className={cn("font-medium", getDriftColor(delayed.drift.hesitationCost))}>
+                    {formatSigned(delayed.drift.hesitationCost, 2)}
+                  </span>
+                </div>
+              </>
+            ) : (
+              <div className="flex items-center text-xs text-muted-foreground">
+                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                Executing against the live book at {formatTimestamp(delayed.executeAt)}
+              </div>
+            )}
+          </div>
+        )}
+        
+        {costs && (
+          <div className="space-y-1 border-t pt-2 text-sm">
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">Gross Notional</span>
+              <span className="font-medium">{formatDecimal(costs.grossNotional, 2)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">
+                Fees ({costs.feeTier})
+              </span>
+              <span className="font-medium">{formatDecimal(costs.totalFees, 2)}</span>
+            </div>
+            {costs.makerQuantity > 0 && (
+              <div className="flex justify-between items-center text-xs text-muted-foreground">
+                <span>
+                  Taker {formatter.formatSize(costs.takerQuantity)} / Maker {formatter.formatSize(costs.makerQuantity)}
+                </span>
+                <span>{formatDecimal(costs.takerFee, 2)} / {formatDecimal(costs.makerFee, 2)}</span>
+              </div>
+            )}
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">{form.side === 'Buy' ? 'Net Cost' : 'Net Proceeds'}</span>
+              <span className="font-medium">{formatDecimal(costs.netCost, 2)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-muted-foreground">Effective Price</span>
+              <span className="font-medium">{costs.effectivePrice ? formatter.formatPrice(costs.effectivePrice) : '-'}</span>
+            </div>
+          </div>
+        )}
+        
+        {venueAllocation.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-sm text-muted-foreground">Venue Allocation</div>
+            {venueAllocation.map(([exchange, quantity]) => (
+              <div key={exchange} className="flex justify-between items-center text-sm">
+                <span className="flex items-center">
+                  <span className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: getExchangeAdapter(exchange)?.color }} />
+                  {getExchangeAdapter(exchange)?.name ?? exchange}
+                </span>
+                <span className="font-medium">
+                  {formatter.formatSize(quantity)} ({(quantity / filledQuantity * 100).toFixed(1)}%)
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+        
         {showWarning && (
           <div className="border rounded-md p-2 bg-yellow-50 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400 flex items-start space-x-2">
             <AlertTriangle className="h-5 w-5 flex-shrink-0" />
             <div className="text-xs">
               <strong className="font-medium">Warning:</strong> This order may experience {fillPercentage < 50 ? 'poor fill rate, ' : ''}
               {slippage > 1 ? 'high slippage, ' : ''}
-              {marketImpact > 25 ? 'significant market impact.' : ''}
+              {highImpact ? 'significant market impact.' : ''}
             </div>
           </div>
         )}
         
         <Button 
-          onClick={onReset} 
+          onClick={onClose} 
           className="w-full mt-2" 
           variant="outline"
         >
-          Reset <ArrowRight className="ml-2 h-4 w-4" />
+          Close <ArrowRight className="ml-2 h-4 w-4" />
         </Button>
       </CardContent>
     </Card>
@@ -0,0 +1,101 @@
+import { memo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Trade } from '@/types/orderbook';
+import { cn, formatTimestamp } from '@/lib/utils';
+import { InstrumentFormatter } from '@/lib/format';
+
+interface TimeAndSalesProps {
+  trades: Trade[];
+  isSupported: boolean;
+  formatter: InstrumentFormatter;
+}
+
+const TimeAndSales = ({ trades, isSupported, formatter }: TimeAndSalesProps) => {
+  const [minSize, setMinSize] = useState<number>(0);
+  const [largeSize, setLargeSize] = useState<number>(1);
+
+  const visibleTrades = trades.filter(trade => trade.size >= minSize);
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">Time &amp; Sales</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="tape-min-size" className="text-xs">Min size</Label>
+            <Input
+              id="tape-min-size"
+              type="number"
+              min="0"
+              step="0.001"
+              className="h-8"
+              value={minSize}
+              onChange={(e) => setMinSize(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="tape-large-size" className="text-xs">Highlight from</Label>
+            <Input
+              id="tape-large-size"
+              type="number"
+              min="0"
+              step="0.001"
+              className="h-8"
+              value={largeSize}
+              onChange={(e) => setLargeSize(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+        </div>
+
+        <div className="overflow-auto max-h-[50vh]">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-background">
+              <tr className="text-muted-foreground border-b">
+                <th className="text-left py-1 px-1">Time</th>
+                <th className="text-right py-1 px-1">Price</th>
+                <th className="text-right py-1 px-1">Size</th>
+              </tr>
+            </thead>
+            <tbody>
+              {!visibleTrades.length && (
+                <tr>
+                  <td colSpan={3} className="text-center text-muted-foreground p-2">
+                    {isSupported ? 'Waiting for trades...' : 'Trades not available for this exchange'}
+                  </td>
+                </tr>
+              )}
+              {visibleTrades.map(trade => {
+                const isBuy = trade.side === 'Buy';
+                const isLarge = largeSize > 0 && trade.size >= largeSize;
+
+                return (
+                  <tr
+                    key={`${trade.id}-${trade.timestamp}`}
+                    className={cn(
+                      isLarge && (isBuy ? "bg-green-100 dark:bg-green-900/30 font-semibold" : "bg-red-100 dark:bg-red-900/30 font-semibold")
+                    )}
+                  >
+                    <td className="py-0.5 px-1 text-muted-foreground">{formatTimestamp(trade.timestamp)}</td>
+                    <td className={cn(
+                      "py-0.5 px-1 text-right",
+                      isBuy ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+                    )}>
+                      {formatter.formatPrice(trade.price)}
+                    </td>
+                    <td className="py-0.5 px-1 text-right">{formatter.formatSize(trade.size)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default memo(TimeAndSales);
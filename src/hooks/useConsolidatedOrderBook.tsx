@@ -0,0 +1,118 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { ConnectionState, Exchange, OrderBook } from '@/types/orderbook';
+import WebSocketService from '@/services/api/websocketService';
+import { MarketListing } from '@/services/instrumentService';
+import { consolidateOrderBooks, VenueBook } from '@/services/consolidatedBookService';
+import { processOrderBookData } from '@/services/orderbookService';
+
+const DEFAULT_ORDERBOOK: OrderBook = {
+  bids: [],
+  asks: [],
+  timestamp: 0
+};
+
+const UPDATE_THROTTLE = 300; // ms between consolidations
+
+const toVenueBooks = (books: Map<Exchange, VenueBook>): VenueBook[] => [...books.values()];
+
+/**
+ * Combined lifecycle of the venue streams: live as soon as one venue is live
+ */
+const combineStates = (states: ConnectionState[]): ConnectionState => {
+  return states.find(state => state.status === 'subscribed')
+    ?? states.find(state => state.status === 'stale')
+    ?? states[0]
+    ?? { status: 'idle' };
+};
+
+/**
+ * Streams one market from every venue listing it and merges the books into a
+ * single venue-attributed ladder
+ *
+ * @param listings Venue symbols of the market; pass a memoised array
+ * @param feeAdjusted Show prices net of each venue's taker fee
+ * @param enabled Subscribe only while the consolidated view is shown
+ */
+export const useConsolidatedOrderBook = (listings: MarketListing[], feeAdjusted: boolean, enabled: boolean) => {
+  const [orderBook, setOrderBook] = useState<OrderBook>(DEFAULT_ORDERBOOK);
+  // Full-depth books per venue, for routing
+  const [venueBooks, setVenueBooks] = useState<VenueBook[]>([]);
+  const [venueStates, setVenueStates] = useState<Record<Exchange, ConnectionState>>({});
+  const booksRef = useRef(new Map<Exchange, VenueBook>());
+  const feeAdjustedRef = useRef(feeAdjusted);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    feeAdjustedRef.current = feeAdjusted;
+  }, [feeAdjusted]);
+
+  useEffect(() => {
+    const books = booksRef.current;
+    books.clear();
+    setOrderBook(DEFAULT_ORDERBOOK);
+    setVenueBooks([]);
+    setVenueStates({});
+
+    if (!enabled || !listings.length) return;
+
+    // Venue books arrive at very different rates; merge them at most once per throttle window
+    const scheduleConsolidation = () => {
+      if (timeoutRef.current) return;
+      timeoutRef.current = setTimeout(() => {
+        timeoutRef.current = null;
+        const latest = toVenueBooks(books);
+        setVenueBooks(latest);
+        setOrderBook(processOrderBookData(consolidateOrderBooks(latest, { feeAdjusted: feeAdjustedRef.current })));
+      }, UPDATE_THROTTLE);
+    };
+
+    const unsubscribes = listings.map(({ exchange, symbol }) => WebSocketService.subscribe(
+      exchange,
+      symbol,
+      (data: unknown) => {
+        const book = data as OrderBook;
+        if (!book?.bids || !book?.asks) return;
+        books.set(exchange, { exchange, symbol, book });
+        scheduleConsolidation();
+      },
+      undefined,
+      (state: ConnectionState) => {
+        // A venue that drops out must not leave its last book in the ladder
+        if (state.status !== 'subscribed' && state.status !== 'stale') {
+          books.delete(exchange);
+          scheduleConsolidation();
+        }
+        setVenueStates(prev => ({ ...prev, [exchange]: state }));
+      }
+    ));
+
+    return () => {
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current);
+        timeoutRef.current = null;
+      }
+    };
+  }, [listings, enabled]);
+
+  // Re-merge straight away when the fee view is toggled
+  useEffect(() => {
+    if (!booksRef.current.size) return;
+    setOrderBook(processOrderBookData(consolidateOrderBooks(toVenueBooks(booksRef.current), { feeAdjusted })));
+  }, [feeAdjusted]);
+
+  // Simulations need the traded prices; the simulator adds fees itself
+  const simulationBook = useMemo(
+    () => feeAdjusted ? processOrderBookData(consolidateOrderBooks(venueBooks)) : orderBook,
+    [feeAdjusted, venueBooks, orderBook]
+  );
+
+  return {
+    orderBook,
+    simulationBook,
+    venueBooks,
+    venueStates,
+    connectionState: combineStates(Object.values(venueStates)),
+    venues: listings.map(listing => listing.exchange)
+  };
+};
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { GhostOrder, OrderBook, OrderSimulation, Trade } from '@/types/orderbook';
+import WebSocketService from '@/services/api/websocketService';
+import { processOrderBookData } from '@/services/orderbookService';
+import {
+  applyOrderBook,
+  applyTrades,
+  cancelGhostOrder,
+  isGhostOrderLive,
+  placeGhostOrder
+} from '@/services/ghostOrderService';
+import { useThrottledState } from '@/hooks/useThrottledState';
+
+const UPDATE_THROTTLE = 300; // ms between re-renders of the order list
+
+const getMarketKey = ({ form }: GhostOrder) => `${form.exchange}|${form.symbol}`;
+
+/**
+ * Keeps simulated limit orders live against their venue's book and trade feeds,
+ * whichever market is currently displayed, until they fill or are cancelled
+ */
+export const useGhostOrders = () => {
+  const [orders, setOrders] = useThrottledState<GhostOrder[]>([], { delay: UPDATE_THROTTLE });
+  const ordersRef = useRef<GhostOrder[]>([]);
+
+  const commit = useCallback((next: GhostOrder[]) => {
+    ordersRef.current = next;
+    setOrders(next);
+  }, [setOrders]);
+
+  // Applies an update to the live orders of one market
+  const updateMarket = useCallback((key: string, update: (order: GhostOrder) => GhostOrder) => {
+    commit(ordersRef.current.map(order => (
+      getMarketKey(order) === key && isGhostOrderLive(order) ? update(order) : order
+    )));
+  }, [commit]);
+
+  // Feeds stay subscribed only while the market has live orders
+  const liveMarkets = useMemo(
+    () => [...new Set(orders.filter(isGhostOrderLive).map(getMarketKey))].sort().join(','),
+    [orders]
+  );
+
+  useEffect(() => {
+    if (!liveMarkets) return;
+
+    const unsubscribes = liveMarkets.split(',').flatMap(key => {
+      const [exchange, symbol] = key.split('|');
+      const unsubscribeBook = WebSocketService.subscribe(exchange, symbol, (data: unknown) => {
+        const book = data as OrderBook;
+        if (!book?.bids || !book?.asks) return;
+        const processed = processOrderBookData(book);
+        updateMarket(key, order => applyOrderBook(order, processed));
+      });
+
+      if (!WebSocketService.supportsTrades(exchange)) return [unsubscribeBook];
+
+      const unsubscribeTrades = WebSocketService.subscribeTrades(exchange, symbol, (trades: Trade[]) => {
+        // Oldest first, so the queue is consumed in print order
+        const ordered = [...trades].sort((a, b) => a.timestamp - b.timestamp);
+        updateMarket(key, order => applyTrades(order, ordered));
+      });
+      return [unsubscribeBook, unsubscribeTrades];
+    });
+
+    return () => {
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+    };
+  }, [liveMarkets, updateMarket]);
+
+  /**
+   * Places the resting remainder of a limit order simulation as a ghost order
+   *
+   * @param simulation Simulation to place
+   * @param orderBook Current book of the order's venue
+   * @returns The new order's id
+   */
+  const placeOrder = useCallback((simulation: OrderSimulation, orderBook: OrderBook): string => {
+    const order = placeGhostOrder(simulation, orderBook);
+    commit([order, ...ordersRef.current]);
+    return order.id;
+  }, [commit]);
+
+  const cancelOrder = useCallback((id: string) => {
+    commit(ordersRef.current.map(order => order.id === id ? cancelGhostOrder(order) : order));
+  }, [commit]);
+
+  // Drops every order that is no longer working
+  const clearInactive = useCallback(() => {
+    commit(ordersRef.current.filter(isGhostOrderLive));
+  }, [commit]);
+
+  return { orders, placeOrder, cancelOrder, clearInactive };
+};
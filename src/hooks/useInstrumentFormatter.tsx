@@ -0,0 +1,34 @@
+import { useMemo } from 'react';
+import { Exchange, OrderBook } from '@/types/orderbook';
+import { createInstrumentFormatter, inferBookDecimals } from '@/lib/format';
+import { useInstruments } from '@/hooks/useInstruments';
+
+/**
+ * Price and size formatters for the instrument being viewed. Precisions come from
+ * the venue's tick and lot size, or are inferred from the book when the venue
+ * publishes no instrument metadata.
+ *
+ * @param exchange Exchange id
+ * @param symbol Venue symbol
+ * @param orderBook Live book, sampled for the fallback precisions
+ * @param compactSizes Abbreviate large sizes
+ */
+export const useInstrumentFormatter = (
+  exchange: Exchange,
+  symbol: string,
+  orderBook: OrderBook,
+  compactSizes = false
+) => {
+  const { getInstrument } = useInstruments(exchange);
+  const instrument = getInstrument(symbol);
+
+  const inferred = useMemo(() => inferBookDecimals(orderBook), [orderBook]);
+  // Depend on the numbers only so the formatter stays stable between book updates
+  const fallbackPriceDecimals = inferred?.price;
+  const fallbackSizeDecimals = inferred?.size;
+
+  return useMemo(
+    () => createInstrumentFormatter(instrument, { fallbackPriceDecimals, fallbackSizeDecimals, compactSizes }),
+    [instrument, fallbackPriceDecimals, fallbackSizeDecimals, compactSizes]
+  );
+};
@@ -0,0 +1,82 @@
+import { useCallback, useMemo } from 'react';
+import { useQueries, useQuery, UseQueryResult } from '@tanstack/react-query';
+import { CanonicalInstrument, Exchange, Instrument } from '@/types/orderbook';
+import { fetchInstruments, getMarketListings, getSelectableSymbols, mapSymbol } from '@/services/instrumentService';
+import { getExchangeAdapter, getExchangeAdapters } from '@/services/exchanges';
+
+// Instrument lists change rarely; keep them for the whole session
+const INSTRUMENTS_STALE_TIME = 60 * 60 * 1000;
+
+const instrumentsQuery = (exchange: Exchange) => ({
+  queryKey: ['instruments', exchange],
+  queryFn: () => fetchInstruments(exchange),
+  enabled: !!getExchangeAdapter(exchange)?.fetchInstruments,
+  staleTime: INSTRUMENTS_STALE_TIME
+});
+
+// Stable so the combined map only changes when a query result does
+const combineInstruments = (results: UseQueryResult<Instrument[]>[]) => new Map(
+  getExchangeAdapters().map((adapter, index) => [adapter.id, results[index]?.data])
+);
+
+/**
+ * Discovered instruments of every venue, updated as each venue's list loads
+ */
+const useAllInstruments = () => {
+  return useQueries({
+    queries: getExchangeAdapters().map(adapter => instrumentsQuery(adapter.id)),
+    combine: combineInstruments
+  });
+};
+
+/**
+ * Instrument metadata for an exchange, cached per venue
+ *
+ * @param exchange Exchange id
+ */
+export const useInstruments = (exchange: Exchange) => {
+  const { data: instruments = [], isLoading, error } = useQuery(instrumentsQuery(exchange));
+
+  const bySymbol = useMemo(
+    () => new Map(instruments.map(instrument => [instrument.symbol, instrument])),
+    [instruments]
+  );
+
+  const symbols = useMemo(() => getSelectableSymbols(exchange, instruments), [exchange, instruments]);
+
+  const getInstrument = useCallback((symbol: string) => bySymbol.get(symbol), [bySymbol]);
+
+  return {
+    instruments,
+    symbols,
+    getInstrument,
+    isLoading,
+    error: error ? (error as Error).message : null
+  };
+};
+
+/**
+ * Maps a symbol onto another venue, also matching instruments that venue has
+ * already reported through instrument discovery
+ */
+export const useSymbolMapper = () => {
+  const instruments = useAllInstruments();
+
+  return useCallback((fromExchange: Exchange, symbol: string, toExchange: Exchange) => {
+    return mapSymbol(fromExchange, symbol, toExchange, instruments.get(toExchange));
+  }, [instruments]);
+};
+
+/**
+ * Every venue listing a canonical market, including instruments found by discovery
+ *
+ * @param canonical Market to look up; pass a memoised object
+ */
+export const useMarketListings = (canonical: CanonicalInstrument | null) => {
+  const instruments = useAllInstruments();
+
+  return useMemo(() => {
+    if (!canonical) return [];
+    return getMarketListings(canonical, exchange => instruments.get(exchange));
+  }, [canonical, instruments]);
+};
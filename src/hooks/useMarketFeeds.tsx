@@ -0,0 +1,82 @@
+import { useEffect, useRef } from 'react';
+import { OrderBook, Trade } from '@/types/orderbook';
+import WebSocketService from '@/services/api/websocketService';
+import { processOrderBookData } from '@/services/orderbookService';
+
+export interface MarketFeed {
+  orderBook: OrderBook | null;
+  // Latest print, on venues with a trades feed
+  lastTradePrice: number | null;
+}
+
+const EMPTY_FEED: MarketFeed = { orderBook: null, lastTradePrice: null };
+
+export const getMarketKey = (exchange: string, symbol: string) => `${exchange}|${symbol}`;
+
+/**
+ * Streams the books and last trades of a set of markets, whichever market is
+ * displayed. Feeds are read from the returned ref and keep their last state once
+ * a market is dropped; `onUpdate` is called with every market that changed.
+ *
+ * @param markets Sorted, comma separated market keys from `getMarketKey`
+ * @param onUpdate Optional listener, called after each update
+ */
+export const useMarketFeeds = (markets: string, onUpdate?: (key: string, feed: MarketFeed) => void) => {
+  const feedsRef = useRef(new Map<string, MarketFeed>());
+  const unsubscribesRef = useRef(new Map<string, () => void>());
+  const onUpdateRef = useRef(onUpdate);
+
+  useEffect(() => {
+    onUpdateRef.current = onUpdate;
+  }, [onUpdate]);
+
+  // Only added and removed markets are (un)subscribed, so kept streams are not interrupted
+  useEffect(() => {
+    const feeds = feedsRef.current;
+    const unsubscribes = unsubscribesRef.current;
+    const keys = markets ? markets.split(',') : [];
+
+    [...unsubscribes.keys()].filter(key => !keys.includes(key)).forEach(key => {
+      unsubscribes.get(key)?.();
+      unsubscribes.delete(key);
+    });
+
+    keys.filter(key => !unsubscribes.has(key)).forEach(key => {
+      const [exchange, symbol] = key.split('|');
+      // A market streamed again starts without the book it had last time
+      feeds.delete(key);
+      const update = (changes: Partial<MarketFeed>) => {
+        const feed = { ...EMPTY_FEED, ...feeds.get(key), ...changes };
+        feeds.set(key, feed);
+        onUpdateRef.current?.(key, feed);
+      };
+
+      const unsubscribeBook = WebSocketService.subscribe(exchange, symbol, (data: unknown) => {
+        const book = data as OrderBook;
+        if (!book?.bids || !book?.asks) return;
+        update({ orderBook: processOrderBookData(book) });
+      });
+      const unsubscribeTrades = WebSocketService.supportsTrades(exchange)
+        ? WebSocketService.subscribeTrades(exchange, symbol, (trades: Trade[]) => {
+          const latest = trades.reduce<Trade | null>((last, trade) => !last || trade.timestamp >= last.timestamp ? trade : last, null);
+          if (latest) update({ lastTradePrice: latest.price });
+        })
+        : null;
+
+      unsubscribes.set(key, () => {
+        unsubscribeBook();
+        unsubscribeTrades?.();
+      });
+    });
+  }, [markets]);
+
+  useEffect(() => {
+    const unsubscribes = unsubscribesRef.current;
+    return () => {
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+      unsubscribes.clear();
+    };
+  }, []);
+
+  return feedsRef;
+};
@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from 'react';
+import { Exchange, MarketStats, OrderBook, Trade } from '@/types/orderbook';
+import WebSocketService from '@/services/api/websocketService';
+import { calculateMarketStats, describeMissingStats, getMidPrice, MidSample } from '@/services/impactService';
+
+const STATS_WINDOW = 15 * 60 * 1000; // Rolling window the model is calibrated over
+const MID_SAMPLE_INTERVAL = 1000; // ms between recorded mids
+
+/**
+ * Keeps a rolling mid-price history and traded volume for a symbol and derives
+ * the market statistics the impact model is calibrated from
+ *
+ * @param exchange Exchange id
+ * @param symbol Venue symbol
+ * @param orderBook Latest processed book of the symbol
+ * @returns The statistics, null until enough history has been collected, and why they are missing
+ */
+export const useMarketStats = (exchange: Exchange, symbol: string, orderBook: OrderBook) => {
+  const [stats, setStats] = useState<MarketStats | null>(null);
+  const [unavailableReason, setUnavailableReason] = useState<string | null>(() => describeMissingStats([], [], 0));
+  const historyRef = useRef<MidSample[]>([]);
+  const tradesRef = useRef<Trade[]>([]);
+  const startedAtRef = useRef(Date.now());
+
+  useEffect(() => {
+    historyRef.current = [];
+    tradesRef.current = [];
+    startedAtRef.current = Date.now();
+    setStats(null);
+    setUnavailableReason(describeMissingStats([], [], 0));
+
+    if (!exchange || !symbol || !WebSocketService.supportsTrades(exchange)) return;
+
+    return WebSocketService.subscribeTrades(exchange, symbol, (trades: Trade[]) => {
+      // Venues may replay recent prints on subscribe; only count what falls in the window
+      tradesRef.current.push(...trades.filter(trade => trade.timestamp >= startedAtRef.current));
+    });
+  }, [exchange, symbol]);
+
+  useEffect(() => {
+    const mid = getMidPrice(orderBook);
+    if (mid === null) return;
+
+    const now = Date.now();
+    const history = historyRef.current;
+    const last = history[history.length - 1];
+    if (last && now - last.timestamp < MID_SAMPLE_INTERVAL) return;
+
+    history.push({ timestamp: now, price: mid });
+
+    const cutoff = now - STATS_WINDOW;
+    while (history.length && history[0].timestamp < cutoff) history.shift();
+    tradesRef.current = tradesRef.current.filter(trade => trade.timestamp >= cutoff);
+
+    const windowMs = Math.min(now - startedAtRef.current, STATS_WINDOW);
+    const calibrated = calculateMarketStats(history, tradesRef.current, windowMs);
+    setStats(calibrated);
+    setUnavailableReason(calibrated ? null : describeMissingStats(history, tradesRef.current, windowMs));
+  }, [orderBook]);
+
+  return {
+    stats,
+    unavailableReason: WebSocketService.supportsTrades(exchange)
+      ? unavailableReason
+      : `${exchange} has no public trades feed to measure volume`
+  };
+};
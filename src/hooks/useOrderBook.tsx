@@ -1,8 +1,8 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { OrderBook, Exchange } from '@/types/orderbook';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { OrderBook, Exchange, ConnectionState } from '@/types/orderbook';
 import WebSocketService from '@/services/api/websocketService';
 import { processOrderBookData } from '@/services/orderbookService';
-import { debounce } from '@/lib/utils';
+import { useThrottledState } from '@/hooks/useThrottledState';
 
 const DEFAULT_ORDERBOOK: OrderBook = {
   bids: [],
@@ -13,84 +13,99 @@ const DEFAULT_ORDERBOOK: OrderBook = {
 const UPDATE_THROTTLE = 300; // ms between updates to prevent flickering
 
 export const useOrderBook = (exchange: Exchange, symbol: string) => {
-  const [orderBook, setOrderBook] = useState<OrderBook>(DEFAULT_ORDERBOOK);
-  const [isConnected, setIsConnected] = useState<boolean>(false);
+  // Throttled rather than debounced: feeds pushing faster than the interval would keep
+  // postponing a debounced update and never render a book
+  const [rawOrderBook, setOrderBook] = useThrottledState<OrderBook>(DEFAULT_ORDERBOOK, { delay: UPDATE_THROTTLE });
+  const orderBook = useMemo(() => processOrderBookData(rawOrderBook), [rawOrderBook]);
+  const [connectionState, setConnectionState] = useState<ConnectionState>({ status: 'idle' });
   const [error, setError] = useState<string | null>(null);
+  // Market the user disconnected from; switching to another market connects again
+  const [closedMarket, setClosedMarket] = useState<string | null>(null);
+  const closedByUser = closedMarket === `${exchange}|${symbol}`;
+  const statusRef = useRef<ConnectionState['status']>('idle');
+  // Book timestamp of the latest update received, in the feed's own clock
   const lastUpdateRef = useRef<number>(0);
-  const pendingUpdateRef = useRef<OrderBook | null>(null);
-
-  // Throttled update function to prevent too many re-renders
-  const updateOrderBookThrottled = useCallback(
-    debounce((data: OrderBook) => {
-      setOrderBook(processOrderBookData(data));
-      pendingUpdateRef.current = null;
-      lastUpdateRef.current = Date.now();
-    }, UPDATE_THROTTLE),
-    []
-  );
 
   const handleOrderBookUpdate = useCallback((data: unknown) => {
     const bookData = data as OrderBook;
     if (!bookData || !bookData.bids || !bookData.asks) return;
     
-    setError(null);
-    setIsConnected(true);
-    
     // Skip updates that are older than what we already have
-    if (bookData.timestamp <= lastUpdateRef.current) return;
-    
-    // Store the latest update
-    pendingUpdateRef.current = bookData;
-    
-    // If we've just received an update, throttle the visual update
-    const timeSinceLastUpdate = Date.now() - lastUpdateRef.current;
+    if (bookData.timestamp < lastUpdateRef.current) return;
+    lastUpdateRef.current = bookData.timestamp;
     
-    if (timeSinceLastUpdate > UPDATE_THROTTLE) {
-      // It's been long enough since the last update, process immediately
-      updateOrderBookThrottled(bookData);
-    } else {
-      // Otherwise queue it through the debounced function
-      updateOrderBookThrottled(bookData);
-    }
-  }, [updateOrderBookThrottled]);
+    setOrderBook(bookData);
+  }, [setOrderBook]);
 
   const handleError = useCallback((error: Event) => {
     console.error('WebSocket error:', error);
-    setError('Connection error. Attempting to reconnect...');
-    setIsConnected(false);
+    // Once the backoff has given up, the failure stays on screen instead
+    if (statusRef.current !== 'failed') {
+      setError('Connection error. Attempting to reconnect...');
+    }
+  }, []);
+
+  const handleStateChange = useCallback((state: ConnectionState) => {
+    statusRef.current = state.status;
+    setConnectionState(state);
+    if (state.status === 'subscribed') {
+      setError(null);
+    } else if (state.status === 'failed') {
+      setError(`Connection failed: ${state.reason}`);
+    }
   }, []);
 
   useEffect(() => {
     if (!exchange || !symbol) {
       setOrderBook(DEFAULT_ORDERBOOK);
-      pendingUpdateRef.current = null;
+      handleStateChange({ status: 'idle' });
+      return;
+    }
+
+    if (closedByUser) {
+      handleStateChange({ status: 'closed' });
       return;
     }
 
     setError(null);
-    setIsConnected(false);
-    pendingUpdateRef.current = null;
     lastUpdateRef.current = 0;
     
     try {
-      WebSocketService.connect(exchange, symbol, handleOrderBookUpdate, handleError);
+      const unsubscribe = WebSocketService.subscribe(exchange, symbol, handleOrderBookUpdate, handleError, handleStateChange);
       
       return () => {
-        WebSocketService.disconnect();
+        unsubscribe();
       };
     } catch (err) {
       setError('Failed to connect to WebSocket');
       console.error('WebSocket connection error:', err);
     }
-  }, [exchange, symbol, handleOrderBookUpdate, handleError]);
+  }, [exchange, symbol, closedByUser, handleOrderBookUpdate, handleError, handleStateChange]);
+
+  // Reopens a stream closed by the user, or forces the venue socket to reconnect
+  const reconnect = useCallback(() => {
+    if (closedByUser) {
+      setClosedMarket(null);
+    } else {
+      setError(null);
+      WebSocketService.reconnect(exchange);
+    }
+  }, [exchange, closedByUser]);
+
+  const disconnect = useCallback(() => {
+    setClosedMarket(`${exchange}|${symbol}`);
+  }, [exchange, symbol]);
 
   return { 
     orderBook, 
-    isConnected, 
+    connectionState,
+    isConnected: connectionState.status === 'subscribed' || connectionState.status === 'stale',
+    isStale: connectionState.status === 'stale',
     error,
+    reconnect,
+    disconnect,
     reset: () => {
       setOrderBook(DEFAULT_ORDERBOOK);
-      pendingUpdateRef.current = null;
       lastUpdateRef.current = 0;
     }
   };
@@ -1,10 +1,21 @@
-import { useState, useCallback } from 'react';
-import { OrderForm, OrderSimulation, OrderBook } from '@/types/orderbook';
-import { simulateOrder } from '@/services/orderbookService';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { MarketStats, OrderForm, OrderSimulation, OrderBook, SimulationRun } from '@/types/orderbook';
+import { compareExecutions, createInactiveSimulation, getDelayMs, simulateOrder } from '@/services/orderbookService';
+import {
+  armConditionalOrder,
+  getReferencePrice,
+  getTriggeredForm,
+  hasLimitPrice,
+  isConditionalOrder,
+  updateConditionalOrder
+} from '@/services/conditionalOrderService';
+import { mapSymbol } from '@/services/instrumentService';
+import { getExchangeAdapter, getExchangeAdapters } from '@/services/exchanges';
+import { getMarketKey, MarketFeed, useMarketFeeds } from '@/hooks/useMarketFeeds';
 
 const DEFAULT_FORM: OrderForm = {
-  exchange: 'OKX',
-  symbol: 'BTC-USDT',
+  exchange: getExchangeAdapters()[0].id,
+  symbol: getExchangeAdapters()[0].defaultSymbol,
   type: 'Limit',
   side: 'Buy',
   price: null,
@@ -12,66 +23,301 @@ const DEFAULT_FORM: OrderForm = {
   delay: 'immediate'
 };
 
-export const useOrderSimulation = (orderBook: OrderBook) => {
+let nextRunId = 1;
+
+const isSameMarket = (a: OrderForm, b: OrderForm) => a.exchange === b.exchange && a.symbol === b.symbol;
+
+// What an order is simulated against: its market's book and impact calibration
+interface MarketData {
+  book: OrderBook | null;
+  stats: MarketStats | null;
+  impactUnavailable: string | null;
+}
+
+const simulateAgainst = (order: OrderForm, { book, stats, impactUnavailable }: MarketData): OrderSimulation => {
+  return book ? simulateOrder(order, book, stats, impactUnavailable) : createInactiveSimulation(order);
+};
+
+const isPendingDelayed = (run: SimulationRun) => run.simulation.delayed !== undefined && !run.simulation.delayed.result;
+
+// Market a run still needs a stream of: an armed order's, or a pending delayed execution's
+const getTrackedMarket = (run: SimulationRun): string | null => {
+  if (run.conditional?.status === 'armed') return getMarketKey(run.conditional.form.exchange, run.conditional.form.symbol);
+  if (isPendingDelayed(run)) return getMarketKey(run.simulation.form.exchange, run.simulation.form.symbol);
+  return null;
+};
+
+/**
+ * Simulation blotter state: the order form and every simulated run
+ *
+ * @param orderBook Book of the market being streamed
+ * @param marketStats Calibration of the impact model
+ * @param lastTradePrice Latest print of the market, to arm orders triggered by the last trade
+ * @param impactUnavailable Why there is no calibration, reported on simulations without impact
+ */
+export const useOrderSimulation = (
+  orderBook: OrderBook,
+  marketStats: MarketStats | null = null,
+  lastTradePrice: number | null = null,
+  impactUnavailable: string | null = null
+) => {
   const [form, setForm] = useState<OrderForm>(DEFAULT_FORM);
-  const [simulation, setSimulation] = useState<OrderSimulation | null>(null);
+  const [runs, setRuns] = useState<SimulationRun[]>([]);
+  // A delayed order executes against whatever the book looks like when its delay elapses
+  const latestBookRef = useRef(orderBook);
+  const latestStatsRef = useRef(marketStats);
+  const latestImpactUnavailableRef = useRef(impactUnavailable);
+  const formRef = useRef(form);
+  const runsRef = useRef(runs);
+  // Pending delayed executions by run id
+  const timersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    latestBookRef.current = orderBook;
+    latestStatsRef.current = marketStats;
+    latestImpactUnavailableRef.current = impactUnavailable;
+  }, [orderBook, marketStats, impactUnavailable]);
+
+  useEffect(() => {
+    formRef.current = form;
+  }, [form]);
+
+  useEffect(() => {
+    runsRef.current = runs;
+  }, [runs]);
+
+  // Armed and pending orders keep their market streaming, so they can still trigger
+  // and execute once the user switches to another market
+  const trackedMarkets = useMemo(
+    () => [...new Set(runs.map(getTrackedMarket).filter((key): key is string => key !== null))].sort().join(','),
+    [runs]
+  );
+  // Set once the evaluation below is defined, as it needs the feeds itself
+  const onFeedUpdateRef = useRef<(key: string, feed: MarketFeed) => void>();
+  const onFeedUpdate = useCallback((key: string, feed: MarketFeed) => onFeedUpdateRef.current?.(key, feed), []);
+  const feedsRef = useMarketFeeds(trackedMarkets, onFeedUpdate);
+
+  // Latest book of an order's market; other markets have no impact calibration
+  const getMarketData = useCallback((order: OrderForm): MarketData => {
+    if (isSameMarket(order, formRef.current)) {
+      return { book: latestBookRef.current, stats: latestStatsRef.current, impactUnavailable: latestImpactUnavailableRef.current };
+    }
+    const book = feedsRef.current.get(getMarketKey(order.exchange, order.symbol))?.orderBook ?? null;
+    return { book, stats: null, impactUnavailable: 'Impact is only calibrated for the market on screen' };
+  }, [feedsRef]);
+
+  const cancelExecution = useCallback((id: string) => {
+    const timer = timersRef.current.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      timersRef.current.delete(id);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
 
   const updateForm = useCallback((updates: Partial<OrderForm>) => {
     setForm(prev => {
       const updated = { ...prev, ...updates };
       
-      // Reset price if switching to market order
-      if (updates.type === 'Market') {
+      // Reset price if switching to an order type without a limit price
+      if (updates.type && !hasLimitPrice(updates.type)) {
         updated.price = null;
       }
       
-      // If exchange changes, update symbol to match available options
-      if (updates.exchange && updates.exchange !== prev.exchange) {
-        switch (updates.exchange) {
-          case 'OKX':
-            updated.symbol = 'BTC-USDT';
-            break;
-          case 'Bybit':
-            updated.symbol = 'BTCUSDT';
-            break;
-          case 'Deribit':
-            updated.symbol = 'BTC-PERPETUAL';
-            break;
-        }
+      // Fee tiers are venue specific
+      if (updates.exchange && updates.exchange !== prev.exchange && !('feeTier' in updates)) {
+        updated.feeTier = undefined;
+      }
+      
+      // If exchange changes, keep the same market where the new venue lists it
+      if (updates.exchange && updates.exchange !== prev.exchange && !updates.symbol) {
+        updated.symbol = mapSymbol(prev.exchange, prev.symbol, updates.exchange)
+          ?? getExchangeAdapter(updates.exchange)?.defaultSymbol
+          ?? '';
       }
       
       return updated;
     });
   }, []);
 
-  const simulate = useCallback(() => {
+  // Evaluates an order against the current book, scheduling its execution when it has a delay
+  const execute = useCallback((
+    id: string,
+    order: OrderForm,
+    market: MarketData = { book: orderBook, stats: marketStats, impactUnavailable }
+  ): OrderSimulation => {
+    cancelExecution(id);
+    const delayMs = getDelayMs(order.delay);
+    const arrival = simulateAgainst(order, market);
+    
+    if (!delayMs) return arrival;
+    
+    const submittedAt = Date.now();
+    const pending: OrderSimulation = {
+      ...arrival,
+      delayed: { submittedAt, executeAt: submittedAt + delayMs, result: null, drift: null }
+    };
+    
+    // Re-evaluate against the live book of the order's market at T+delay, unless the run was removed or re-run
+    timersRef.current.set(id, setTimeout(() => {
+      timersRef.current.delete(id);
+      const execution = simulateAgainst(order, getMarketData(order));
+      setRuns(prev => prev.map(run => run.id === id && run.simulation === pending ? {
+        ...run,
+        simulation: {
+          ...pending,
+          delayed: {
+            submittedAt,
+            executeAt: Date.now(),
+            result: execution,
+            drift: compareExecutions(arrival, execution)
+          }
+        }
+      } : run));
+    }, delayMs));
+    
+    return pending;
+  }, [orderBook, marketStats, impactUnavailable, cancelExecution, getMarketData]);
+
+  /**
+   * Simulates the current form and adds it to the blotter
+   *
+   * @returns The new run's id, or null without a book to simulate against
+   */
+  const simulate = useCallback((): string | null => {
     if (!orderBook.bids.length || !orderBook.asks.length) {
-      return;
+      return null;
     }
     
-    const result = simulateOrder(form, orderBook);
-    setSimulation(result);
+    const id = `sim-${nextRunId++}`;
+    const now = Date.now();
     
-    // If there's a delay, schedule the simulation to be removed
-    if (form.delay !== 'immediate') {
-      const delayMs = form.delay === '5s' ? 5000 : form.delay === '10s' ? 10000 : 30000;
+    // Conditional orders wait for their trigger before they are simulated
+    if (isConditionalOrder(form)) {
+      const conditional = armConditionalOrder(form, getReferencePrice(form.triggerSource, orderBook, lastTradePrice));
+      if (!conditional) return null;
       
-      setTimeout(() => {
-        setSimulation(null);
-      }, delayMs);
+      const simulation = createInactiveSimulation(form);
+      setRuns(prev => [{ id, simulation, conditional, createdAt: now, updatedAt: now, pinned: false }, ...prev]);
+      return id;
     }
+    
+    const simulation = execute(id, form);
+    setRuns(prev => [{ id, simulation, createdAt: now, updatedAt: now, pinned: false }, ...prev]);
+    return id;
+  }, [form, orderBook, lastTradePrice, execute]);
+
+  // Armed orders follow the reference prices of their own market's feed, whichever market
+  // is displayed, and convert when triggered
+  const evaluateConditionals = useCallback((key: string, feed: MarketFeed) => {
+    const updates = new Map<string, Partial<SimulationRun>>();
+    const evaluated = new Map<string, SimulationRun['conditional']>();
+    runsRef.current.forEach(run => {
+      const conditional = run.conditional;
+      if (conditional?.status !== 'armed' || getMarketKey(conditional.form.exchange, conditional.form.symbol) !== key) return;
+      
+      const reference = feed.orderBook
+        ? getReferencePrice(conditional.form.triggerSource, feed.orderBook, feed.lastTradePrice)
+        : null;
+      if (reference === null || reference === conditional.referencePrice) return;
+      
+      const updated = updateConditionalOrder(conditional, reference);
+      evaluated.set(run.id, conditional);
+      if (updated.status !== 'triggered') {
+        updates.set(run.id, { conditional: updated });
+        return;
+      }
+      const triggered = getTriggeredForm(updated);
+      updates.set(run.id, {
+        conditional: updated,
+        simulation: execute(run.id, triggered, getMarketData(triggered)),
+        updatedAt: Date.now()
+      });
+    });
+    if (!updates.size) return;
+    
+    // Only applied to runs that were not re-armed or removed meanwhile; the ref is updated
+    // straight away so the next message before the re-render cannot trigger a run twice
+    const apply = (prev: SimulationRun[]) => prev.map(run => {
+      const update = updates.get(run.id);
+      return update && run.conditional === evaluated.get(run.id) ? { ...run, ...update } : run;
+    });
+    runsRef.current = apply(runsRef.current);
+    setRuns(apply);
+  }, [execute, getMarketData]);
+
+  useEffect(() => {
+    onFeedUpdateRef.current = evaluateConditionals;
+  }, [evaluateConditionals]);
+
+  // Only runs of the market being streamed can be re-run against the current book
+  const canRerun = useCallback((run: SimulationRun) => {
+    return isSameMarket(run.conditional?.form ?? run.simulation.form, form) && orderBook.bids.length > 0 && orderBook.asks.length > 0;
   }, [form, orderBook]);
 
-  const resetSimulation = useCallback(() => {
-    setSimulation(null);
+  const rerun = useCallback((id: string) => {
+    const run = runs.find(candidate => candidate.id === id);
+    if (!run || !canRerun(run)) return;
+    
+    // Conditional orders are re-armed rather than executed straight away
+    if (run.conditional) {
+      cancelExecution(id);
+      const conditional = armConditionalOrder(
+        run.conditional.form,
+        getReferencePrice(run.conditional.form.triggerSource, orderBook, lastTradePrice)
+      );
+      if (!conditional) return;
+      
+      setRuns(prev => prev.map(candidate => candidate.id === id
+        ? { ...candidate, conditional, simulation: createInactiveSimulation(conditional.form), updatedAt: Date.now() }
+        : candidate));
+      return;
+    }
+    
+    const simulation = execute(id, run.simulation.form);
+    setRuns(prev => prev.map(candidate => candidate.id === id
+      ? { ...candidate, simulation, updatedAt: Date.now() }
+      : candidate));
+  }, [runs, canRerun, execute, cancelExecution, orderBook, lastTradePrice]);
+
+  const togglePin = useCallback((id: string) => {
+    setRuns(prev => prev.map(run => run.id === id ? { ...run, pinned: !run.pinned } : run));
   }, []);
 
+  const removeRun = useCallback((id: string) => {
+    cancelExecution(id);
+    setRuns(prev => prev.filter(run => run.id !== id));
+  }, [cancelExecution]);
+
+  // Last streamed book of a market with armed or pending orders, also once the user has moved to another market
+  const getMarketBook = useCallback((order: OrderForm): OrderBook | null => {
+    return feedsRef.current.get(getMarketKey(order.exchange, order.symbol))?.orderBook ?? null;
+  }, [feedsRef]);
+
+  // Removes every run that is not pinned
+  const clearRuns = useCallback(() => {
+    runs.filter(run => !run.pinned).forEach(run => cancelExecution(run.id));
+    setRuns(prev => prev.filter(run => run.pinned));
+  }, [runs, cancelExecution]);
+
   return {
     form,
     updateForm,
-    simulation,
+    runs,
     simulate,
-    resetSimulation,
+    canRerun,
+    rerun,
+    togglePin,
+    removeRun,
+    clearRuns,
+    getMarketBook,
     resetForm: () => setForm(DEFAULT_FORM)
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Exchange, OrderBook, PaperAccount, PaperFill } from '@/types/orderbook';
+import { InstrumentValidationError } from '@/services/instrumentService';
+import { getMidPrice } from '@/services/impactService';
+import { loadPaperAccount, savePaperAccount } from '@/services/paperAccountStore';
+import {
+  applyPaperFill,
+  createPaperAccount,
+  getPositionKey,
+  validatePaperFill
+} from '@/services/paperTradingService';
+
+const SAVE_INTERVAL = 1000; // ms between saves of mark updates, which come with every book update
+
+/**
+ * Paper trading account persisted in IndexedDB. Positions on the displayed market
+ * are marked to its live mid; other positions keep their last mark.
+ *
+ * @param exchange Exchange id of the displayed market
+ * @param symbol Venue symbol of the displayed market
+ * @param orderBook Latest book of the displayed market, from `useOrderBook`
+ */
+export const usePaperAccount = (exchange: Exchange, symbol: string, orderBook: OrderBook) => {
+  const [account, setAccount] = useState<PaperAccount | null>(null);
+  const accountRef = useRef<PaperAccount | null>(null);
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const commit = useCallback((next: PaperAccount) => {
+    accountRef.current = next;
+    setAccount(next);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPaperAccount().then(saved => {
+      if (!cancelled) commit(saved ?? createPaperAccount());
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [commit]);
+
+  // Persist at most once per interval; a debounce would never settle on a live book
+  useEffect(() => {
+    if (!account || saveTimeoutRef.current) return;
+    saveTimeoutRef.current = setTimeout(() => {
+      saveTimeoutRef.current = null;
+      if (accountRef.current) savePaperAccount(accountRef.current);
+    }, SAVE_INTERVAL);
+  }, [account]);
+
+  // Flush a pending save on unmount
+  useEffect(() => () => {
+    if (!saveTimeoutRef.current) return;
+    clearTimeout(saveTimeoutRef.current);
+    saveTimeoutRef.current = null;
+    if (accountRef.current) savePaperAccount(accountRef.current);
+  }, []);
+
+  useEffect(() => {
+    const current = accountRef.current;
+    const mid = getMidPrice(orderBook);
+    const key = getPositionKey(exchange, symbol);
+    if (!current || mid === null || current.marks[key] === mid) return;
+    if (!current.positions.some(position => getPositionKey(position.exchange, position.symbol) === key)) return;
+
+    commit({ ...current, marks: { ...current.marks, [key]: mid } });
+  }, [exchange, symbol, orderBook, commit]);
+
+  /**
+   * Books fills in order, stopping at the first one the balances cannot cover
+   *
+   * @returns The reason a fill was rejected, or null when all were booked
+   */
+  const bookFills = useCallback((fills: PaperFill[]): InstrumentValidationError | null => {
+    let current = accountRef.current;
+    if (!current) {
+      return { title: "Paper account loading", description: "Try again once the account has loaded" };
+    }
+
+    let error: InstrumentValidationError | null = null;
+    for (const fill of fills) {
+      error = validatePaperFill(current, fill);
+      if (error) break;
+      current = applyPaperFill(current, fill);
+    }
+
+    // Fills and balances are saved straight away rather than with the next mark update
+    if (current !== accountRef.current) {
+      commit(current);
+      savePaperAccount(current);
+    }
+    return error;
+  }, [commit]);
+
+  const reset = useCallback(() => {
+    const account = createPaperAccount();
+    commit(account);
+    savePaperAccount(account);
+  }, [commit]);
+
+  return { account, bookFills, reset };
+};
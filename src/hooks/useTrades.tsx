@@ -0,0 +1,41 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { Exchange, Trade } from '@/types/orderbook';
+import WebSocketService from '@/services/api/websocketService';
+import { useThrottledState } from '@/hooks/useThrottledState';
+
+const DEFAULT_MAX_TRADES = 200;
+const UPDATE_THROTTLE = 250; // ms between tape re-renders
+
+/**
+ * Streams public trades for a symbol, newest first
+ *
+ * @param exchange Exchange id
+ * @param symbol Venue symbol
+ * @param maxTrades Number of prints kept on the tape
+ */
+export const useTrades = (exchange: Exchange, symbol: string, maxTrades = DEFAULT_MAX_TRADES) => {
+  const [trades, setTrades] = useThrottledState<Trade[]>([], { delay: UPDATE_THROTTLE });
+  const tradesRef = useRef<Trade[]>([]);
+  const isSupported = WebSocketService.supportsTrades(exchange);
+
+  const handleTrades = useCallback((incoming: Trade[]) => {
+    const newestFirst = [...incoming].sort((a, b) => b.timestamp - a.timestamp);
+    tradesRef.current = [...newestFirst, ...tradesRef.current].slice(0, maxTrades);
+    setTrades(tradesRef.current);
+  }, [maxTrades, setTrades]);
+
+  useEffect(() => {
+    tradesRef.current = [];
+    setTrades([]);
+
+    if (!exchange || !symbol || !isSupported) return;
+
+    const unsubscribe = WebSocketService.subscribeTrades(exchange, symbol, handleTrades);
+
+    return () => {
+      unsubscribe();
+    };
+  }, [exchange, symbol, isSupported, handleTrades, setTrades]);
+
+  return { trades, isSupported };
+};
@@ -0,0 +1,37 @@
+// Lookup table for the standard CRC-32 (IEEE 802.3) polynomial
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[i] = c >>> 0;
+  }
+  return table;
+})();
+
+const encoder = new TextEncoder();
+
+/**
+ * Computes the CRC-32 of a string (UTF-8 encoded)
+ *
+ * @param input String to checksum
+ * @returns Unsigned 32-bit checksum
+ */
+export function crc32(input: string): number {
+  const bytes = encoder.encode(input);
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Same as crc32 but interpreted as a signed 32-bit integer,
+ * which is how some venues (e.g. OKX) publish their checksums
+ */
+export function crc32Signed(input: string): number {
+  return crc32(input) | 0;
+}
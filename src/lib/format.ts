@@ -0,0 +1,109 @@
+import { Instrument, OrderBook } from '@/types/orderbook';
+
+// Upper bound for inferred precisions; beyond this the float noise shows
+const MAX_DECIMALS = 10;
+// Sizes below this are never abbreviated, even in compact mode
+const COMPACT_THRESHOLD = 1000;
+// Levels sampled per side when a venue publishes no instrument metadata
+const INFERENCE_DEPTH = 20;
+
+// Precisions used before anything is known about the instrument
+export const DEFAULT_PRICE_DECIMALS = 2;
+export const DEFAULT_SIZE_DECIMALS = 4;
+
+export interface InstrumentFormatter {
+  priceDecimals: number;
+  sizeDecimals: number;
+  formatPrice: (value: number) => string;
+  formatSize: (value: number, compact?: boolean) => string;
+}
+
+export interface InstrumentFormatterOptions {
+  // Precisions used when the instrument has no metadata
+  fallbackPriceDecimals?: number;
+  fallbackSizeDecimals?: number;
+  // Abbreviate large sizes (1.2K, 3.4M)
+  compactSizes?: boolean;
+}
+
+/**
+ * Number of decimals needed to represent a value exactly, e.g. a tick size of
+ * 0.0001 -> 4, 65000.5 -> 1
+ */
+export const getDecimals = (value: number): number => {
+  if (!value || !Number.isFinite(value)) return 0;
+
+  const [mantissa, exponent] = value.toExponential().split('e');
+  const mantissaDecimals = mantissa.split('.')[1]?.length ?? 0;
+  return Math.min(MAX_DECIMALS, Math.max(0, mantissaDecimals - parseInt(exponent, 10)));
+};
+
+// Intl formatters are expensive to construct, so they are shared per precision
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+const getNumberFormat = (decimals: number, compact: boolean): Intl.NumberFormat => {
+  const key = `${decimals}:${compact}`;
+  let format = numberFormats.get(key);
+
+  if (!format) {
+    format = new Intl.NumberFormat('en-US', compact
+      ? { notation: 'compact', maximumFractionDigits: 1 }
+      : { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+    numberFormats.set(key, format);
+  }
+
+  return format;
+};
+
+/**
+ * Formats a value with a fixed number of decimals and thousand separators
+ *
+ * @param value Number to format
+ * @param decimals Fraction digits
+ * @param compact Abbreviate values of 1,000 and above (1.2K, 3.4M)
+ */
+export const formatDecimal = (value: number, decimals: number, compact = false): string => {
+  if (!Number.isFinite(value)) return '-';
+
+  const useCompact = compact && Math.abs(value) >= COMPACT_THRESHOLD;
+  return getNumberFormat(decimals, useCompact).format(value);
+};
+
+/**
+ * Infers display precisions from the book itself, for venues that publish no
+ * instrument metadata
+ */
+export const inferBookDecimals = (orderBook: OrderBook): { price: number, size: number } | null => {
+  const levels = [...orderBook.bids.slice(0, INFERENCE_DEPTH), ...orderBook.asks.slice(0, INFERENCE_DEPTH)];
+  if (!levels.length) return null;
+
+  return {
+    price: Math.max(...levels.map(level => getDecimals(level.price))),
+    size: Math.max(...levels.map(level => getDecimals(level.quantity)))
+  };
+};
+
+/**
+ * Creates price and size formatters driven by the instrument's tick and lot size
+ *
+ * @param instrument Instrument metadata, if the venue publishes it
+ * @param options Fallback precisions and compact notation
+ */
+export const createInstrumentFormatter = (
+  instrument: Instrument | undefined,
+  {
+    fallbackPriceDecimals = DEFAULT_PRICE_DECIMALS,
+    fallbackSizeDecimals = DEFAULT_SIZE_DECIMALS,
+    compactSizes = false
+  }: InstrumentFormatterOptions = {}
+): InstrumentFormatter => {
+  const priceDecimals = instrument ? getDecimals(instrument.tickSize) : fallbackPriceDecimals;
+  const sizeDecimals = instrument ? getDecimals(instrument.lotSize) : fallbackSizeDecimals;
+
+  return {
+    priceDecimals,
+    sizeDecimals,
+    formatPrice: (value: number) => formatDecimal(value, priceDecimals),
+    formatSize: (value: number, compact = compactSizes) => formatDecimal(value, sizeDecimals, compact)
+  };
+};
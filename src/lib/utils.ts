@@ -11,19 +11,18 @@ export function formatNumber(value: number, maximumFractionDigits = 2): string {
   }).format(value);
 }
 
-export function formatPrice(value: number): string {
-  // Format price with appropriate precision based on value
-  if (value < 0.01) return value.toFixed(8);
-  if (value < 1) return value.toFixed(6);
-  if (value < 100) return value.toFixed(4);
-  if (value < 10000) return value.toFixed(2);
-  return value.toFixed(0);
-}
-
 export function formatTimestamp(timestamp: number): string {
   return new Date(timestamp).toLocaleTimeString();
 }
 
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+
+  const minutes = Math.floor(ms / 60000);
+  return `${minutes}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
 export function debounce<T extends (...args: unknown[]) => unknown>(
   func: T,
   wait: number
@@ -1,52 +1,281 @@
-import { useState, useCallback } from 'react';
+import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Exchange } from '@/types/orderbook';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Exchange, OrderBook as OrderBookData, OrderForm, OrderSimulation, PaperFill } from '@/types/orderbook';
 import OrderBook from '@/components/OrderBook';
 import OrderSimulationForm from '@/components/OrderSimulationForm';
 import SimulationResults from '@/components/SimulationResults';
+import SimulationBlotter from '@/components/SimulationBlotter';
+import RoutingResults from '@/components/RoutingResults';
+import GhostOrders from '@/components/GhostOrders';
+import PaperTrading from '@/components/PaperTrading';
 import DepthChart from '@/components/DepthChart';
 import OrderbookImbalance from '@/components/OrderbookImbalance';
+import ConnectionStatus from '@/components/ConnectionStatus';
+import TimeAndSales from '@/components/TimeAndSales';
 import { useOrderBook } from '@/hooks/useOrderBook';
 import { useOrderSimulation } from '@/hooks/useOrderSimulation';
+import { useTrades } from '@/hooks/useTrades';
+import { useInstrumentFormatter } from '@/hooks/useInstrumentFormatter';
+import { useMarketListings, useSymbolMapper } from '@/hooks/useInstruments';
+import { useConsolidatedOrderBook } from '@/hooks/useConsolidatedOrderBook';
+import { useMarketStats } from '@/hooks/useMarketStats';
+import { useGhostOrders } from '@/hooks/useGhostOrders';
+import { usePaperAccount } from '@/hooks/usePaperAccount';
+import { useToast } from '@/components/ui/use-toast';
+import { getExchangeAdapter, getExchangeAdapters } from '@/services/exchanges';
+import {
+  CanonicalMarket,
+  formatCanonicalInstrument,
+  getCanonicalId,
+  getFeaturedMarkets,
+  toCanonical
+} from '@/services/instrumentService';
+import { planRoute, RoutingPlan } from '@/services/routingService';
+import { isGhostOrderLive } from '@/services/ghostOrderService';
+import { getReferencePrice, isConditionalOrder, validateTrigger } from '@/services/conditionalOrderService';
+import { getGhostOrderFill, getSimulationFills } from '@/services/paperTradingService';
+import { ANALYTICS_DEPTH, DEFAULT_DISPLAY_DEPTH, trimOrderBook } from '@/services/orderbookService';
+import { cn } from '@/lib/utils';
 import { AlertCircle } from 'lucide-react';
 
+// Row counts offered for the order book ladder
+const BOOK_ROW_OPTIONS = [10, 15, 25, 50];
+
+const EMPTY_BOOK: OrderBookData = { bids: [], asks: [], timestamp: 0 };
+
 export default function OrderbookViewerPage() {
-  const [activeExchange, setActiveExchange] = useState<Exchange>('OKX');
-  const [activeSymbol, setActiveSymbol] = useState<string>('BTC-USDT');
+  const [activeExchange, setActiveExchange] = useState<Exchange>(() => getExchangeAdapters()[0].id);
+  const [activeSymbol, setActiveSymbol] = useState<string>(() => getExchangeAdapters()[0].defaultSymbol);
+  const [compactSizes, setCompactSizes] = useState(false);
+  const [bookRows, setBookRows] = useState(DEFAULT_DISPLAY_DEPTH);
+  const [consolidated, setConsolidated] = useState(false);
+  const [feeAdjusted, setFeeAdjusted] = useState(false);
+  const [paperTrading, setPaperTrading] = useState(false);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  // Routing plans and ghost orders of blotter runs, by run id
+  const [routingPlans, setRoutingPlans] = useState<Record<string, RoutingPlan>>({});
+  const [ghostOrderIds, setGhostOrderIds] = useState<Record<string, string>>({});
   
   // Fetch orderbook data
   const { 
     orderBook, 
-    isConnected, 
-    error: connectionError 
+    connectionState,
+    error: connectionError,
+    reconnect,
+    disconnect 
   } = useOrderBook(activeExchange, activeSymbol);
   
+  // Canonical market selection, shared by every venue that lists it
+  const mapSymbol = useSymbolMapper();
+  const markets = useMemo(() => getFeaturedMarkets(), []);
+  const activeMarket = useMemo(() => toCanonical(activeExchange, activeSymbol), [activeExchange, activeSymbol]);
+  const activeMarketId = activeMarket ? getCanonicalId(activeMarket) : '';
+  const listings = useMarketListings(activeMarket);
+  
+  // The same market merged across every venue listing it
+  const {
+    orderBook: consolidatedBook,
+    simulationBook: consolidatedSimulationBook,
+    venueBooks,
+    connectionState: consolidatedState,
+    venues: consolidatedVenues
+  } = useConsolidatedOrderBook(listings, feeAdjusted, consolidated);
+  const displayedBook = consolidated ? consolidatedBook : orderBook;
+  const analyticsBook = useMemo(() => trimOrderBook(displayedBook, ANALYTICS_DEPTH), [displayedBook]);
+  
+  // Price/size formatting for the active instrument
+  const formatter = useInstrumentFormatter(activeExchange, activeSymbol, orderBook, compactSizes);
+  
+  // Public trades tape
+  const { trades, isSupported: tradesSupported } = useTrades(activeExchange, activeSymbol);
+  
+  // Latest print of the active market; the tape can briefly hold the previous market's trades
+  const lastTrade = trades[0];
+  const lastTradePrice = lastTrade && lastTrade.exchange === activeExchange && lastTrade.symbol === activeSymbol
+    ? lastTrade.price
+    : null;
+  
+  // Volatility and volume of the active venue, calibrating the impact model
+  const { stats: marketStats, unavailableReason: impactUnavailable } = useMarketStats(activeExchange, activeSymbol, orderBook);
+  
   // Order simulation state
   const { 
     form, 
     updateForm, 
-    simulation,
+    runs,
     simulate, 
-    resetSimulation
-  } = useOrderSimulation(orderBook);
+    canRerun,
+    rerun,
+    togglePin,
+    removeRun,
+    clearRuns,
+    getMarketBook
+  } = useOrderSimulation(consolidated ? consolidatedSimulationBook : orderBook, marketStats, lastTradePrice, impactUnavailable);
+  const selectedRun = runs.find(run => run.id === selectedRunId);
+  
+  // The selected run is formatted at its own market's precision; runs on other
+  // markets infer it from their fills when the venue publishes no metadata
+  const selectedMarket = selectedRun ? selectedRun.conditional?.form ?? selectedRun.simulation.form : form;
+  const isSelectedMarketActive = selectedMarket.exchange === activeExchange && selectedMarket.symbol === activeSymbol;
+  const selectedFills = selectedRun?.simulation.delayed?.result?.fills ?? selectedRun?.simulation.fills;
+  const selectedSampleBook = useMemo(
+    () => isSelectedMarketActive ? orderBook : { bids: selectedFills ?? [], asks: [], timestamp: 0 },
+    [isSelectedMarketActive, orderBook, selectedFills]
+  );
+  const runFormatter = useInstrumentFormatter(selectedMarket.exchange, selectedMarket.symbol, selectedSampleBook, compactSizes);
+  
+  // Every active simulation of the displayed market is drawn on the ladder and depth chart
+  const displayedSimulations = useMemo(
+    () => runs
+      .map(run => run.simulation)
+      .filter(simulation => simulation.active && simulation.form.exchange === activeExchange && simulation.form.symbol === activeSymbol),
+    [runs, activeExchange, activeSymbol]
+  );
+  // Armed conditional orders of the displayed market are marked at their trigger price
+  const displayedConditionals = useMemo(
+    () => runs.flatMap(run => run.conditional?.status === 'armed'
+      && run.conditional.form.exchange === activeExchange
+      && run.conditional.form.symbol === activeSymbol
+      ? [run.conditional]
+      : []),
+    [runs, activeExchange, activeSymbol]
+  );
+  
+  // Limit orders that do not fill straight away stay live as ghost orders
+  const { orders: ghostOrders, placeOrder, cancelOrder, clearInactive } = useGhostOrders();
+  const placedSimulationsRef = useRef(new WeakSet<OrderSimulation>());
+  const selectedGhost = selectedRun && ghostOrders.find(order => order.id === ghostOrderIds[selectedRun.id]);
+  const displayedGhosts = useMemo(
+    () => ghostOrders.filter(order => isGhostOrderLive(order) && order.form.exchange === activeExchange && order.form.symbol === activeSymbol),
+    [ghostOrders, activeExchange, activeSymbol]
+  );
+  
+  // With paper trading on, executed fills are booked to the persisted account
+  const { toast } = useToast();
+  const { account: paperAccount, bookFills, reset: resetPaperAccount } = usePaperAccount(activeExchange, activeSymbol, orderBook);
+  // Ghost orders placed while paper trading, with the number of their fills already seen
+  const paperGhostFillsRef = useRef(new Map<string, number>());
+  
+  const bookPaperFills = useCallback((fills: PaperFill[]): boolean => {
+    const error = bookFills(fills);
+    if (error) toast({ title: error.title, description: error.description, variant: "destructive" });
+    return !error;
+  }, [bookFills, toast]);
+  
+  // Delayed orders reach the book once their delay has elapsed; a re-run places a new order
+  useEffect(() => {
+    runs.forEach(run => {
+      const executed = run.simulation.delayed ? run.simulation.delayed.result : run.simulation;
+      if (!executed || placedSimulationsRef.current.has(executed)) return;
+      
+      placedSimulationsRef.current.add(executed);
+      const booked = paperTrading && bookPaperFills(getSimulationFills(executed));
+      if (executed.form.type !== 'Limit' || executed.remainingQuantity <= 0) return;
+      
+      // Delayed orders can execute after the user has moved to another market
+      const isActiveMarket = executed.form.exchange === activeExchange && executed.form.symbol === activeSymbol;
+      const ghostId = placeOrder(executed, (isActiveMarket ? orderBook : getMarketBook(executed.form)) ?? EMPTY_BOOK);
+      setGhostOrderIds(prev => ({ ...prev, [run.id]: ghostId }));
+      // The resting remainder trades on the paper account only if its marketable part did
+      if (booked) paperGhostFillsRef.current.set(ghostId, 0);
+    });
+  }, [runs, orderBook, activeExchange, activeSymbol, getMarketBook, placeOrder, paperTrading, bookPaperFills]);
+  
+  // Resting fills of paper ghost orders are booked as they happen, at the maker rate
+  useEffect(() => {
+    ghostOrders.forEach(order => {
+      const seen = paperGhostFillsRef.current.get(order.id);
+      if (seen === undefined || seen === order.fills.length) return;
+      
+      paperGhostFillsRef.current.set(order.id, order.fills.length);
+      const fills = order.fills.slice(seen).filter(fill => fill.reason !== 'taker');
+      if (fills.length) bookPaperFills(fills.map(fill => getGhostOrderFill(order, fill)));
+    });
+  }, [ghostOrders, bookPaperFills]);
+  
+  // With every venue streaming, also plan how the order would be split across them
+  const updateRoutingPlan = (runId: string, order: OrderForm) => {
+    // Conditional orders are not routed: the book they will meet is unknown until they trigger
+    const plan = consolidated && venueBooks.length && !isConditionalOrder(order)
+      ? planRoute(venueBooks, order)
+      : null;
+    
+    setRoutingPlans(prev => {
+      const { [runId]: _previous, ...others } = prev;
+      return plan ? { ...others, [runId]: plan } : others;
+    });
+  };
+  
+  const handleSimulate = () => {
+    const runId = simulate();
+    if (!runId) return;
+    
+    updateRoutingPlan(runId, form);
+    setSelectedRunId(runId);
+  };
+  
+  // A run's ghost order stops working once the run is re-run or removed
+  const cancelRunGhost = (runId: string) => {
+    const ghostId = ghostOrderIds[runId];
+    if (!ghostId) return;
+    
+    cancelOrder(ghostId);
+    setGhostOrderIds(prev => {
+      const { [runId]: _cancelled, ...others } = prev;
+      return others;
+    });
+  };
+  
+  const handleRerun = (runId: string) => {
+    const run = runs.find(candidate => candidate.id === runId);
+    if (!run || !canRerun(run)) return;
+    
+    // A conditional run is re-armed, which its trigger must still allow
+    const triggerError = run.conditional && validateTrigger(
+      run.conditional.form,
+      getReferencePrice(run.conditional.form.triggerSource, consolidated ? consolidatedSimulationBook : orderBook, lastTradePrice)
+    );
+    if (triggerError) {
+      toast({ ...triggerError, variant: "destructive" });
+      return;
+    }
+    
+    cancelRunGhost(runId);
+    rerun(runId);
+    updateRoutingPlan(runId, run.conditional?.form ?? run.simulation.form);
+  };
+  
+  const handleRemoveRun = (runId: string) => {
+    cancelRunGhost(runId);
+    removeRun(runId);
+    if (runId === selectedRunId) setSelectedRunId(null);
+  };
+  
+  const handleClearRuns = () => {
+    runs.filter(run => !run.pinned).forEach(run => cancelRunGhost(run.id));
+    clearRuns();
+    if (selectedRun && !selectedRun.pinned) setSelectedRunId(null);
+  };
   
   // Handle exchange change from the tabs
-  const handleExchangeChange = (exchange: Exchange) => {
+  const handleExchangeChange = (exchange: Exchange, marketSymbol?: string) => {
     setActiveExchange(exchange);
     
-    // Update the symbol based on the exchange
-    let symbol = '';
-    switch (exchange) {
-      case 'OKX':
-        symbol = 'BTC-USDT';
-        break;
-      case 'Bybit':
-        symbol = 'BTCUSDT';
-        break;
-      case 'Deribit':
-        symbol = 'BTC-PERPETUAL';
-        break;
-    }
+    // Stay on the same market when the venue lists it, otherwise use the venue's default symbol
+    const symbol = marketSymbol
+      ?? mapSymbol(activeExchange, activeSymbol, exchange)
+      ?? getExchangeAdapter(exchange)?.defaultSymbol
+      ?? '';
     
     setActiveSymbol(symbol);
     
@@ -54,10 +283,14 @@ export default function OrderbookViewerPage() {
     updateForm({ exchange, symbol });
   };
   
+  const handleMarketChange = (market: CanonicalMarket) => {
+    const listing = market.listings.find(candidate => candidate.exchange === activeExchange) ?? market.listings[0];
+    handleExchangeChange(listing.exchange, listing.symbol);
+  };
+  
   // Keep form exchange and active exchange in sync
   const handleFormExchangeChange = (updates: { exchange: Exchange }) => {
-    setActiveExchange(updates.exchange);
-    updateForm(updates);
+    handleExchangeChange(updates.exchange);
   };
 
   return (
@@ -69,17 +302,82 @@ export default function OrderbookViewerPage() {
         </p>
       </header>
       
-      <Tabs defaultValue="OKX" onValueChange={(value) => handleExchangeChange(value as Exchange)}>
+      <Tabs value={activeExchange} onValueChange={(value) => handleExchangeChange(value as Exchange)}>
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-4 space-y-4 md:space-y-0">
-          <TabsList>
-            <TabsTrigger value="OKX">OKX</TabsTrigger>
-            <TabsTrigger value="Bybit">Bybit</TabsTrigger>
-            <TabsTrigger value="Deribit">Deribit</TabsTrigger>
-          </TabsList>
+          <div className="flex flex-wrap items-center gap-4">
+            <Select
+              value={activeMarketId}
+              onValueChange={(id) => {
+                const market = markets.find(candidate => candidate.id === id);
+                if (market) handleMarketChange(market);
+              }}
+            >
+              <SelectTrigger className="w-56" aria-label="Market">
+                <SelectValue placeholder="Select Market">
+                  {activeMarket ? formatCanonicalInstrument(activeMarket) : activeSymbol}
+                </SelectValue>
+              </SelectTrigger>
+              <SelectContent position="popper">
+                {markets.map(market => (
+                  <SelectItem key={market.id} value={market.id}>
+                    {market.label}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {market.listings.map(listing => listing.exchange).join(', ')}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            
+            <TabsList>
+              {getExchangeAdapters().map(adapter => (
+                <TabsTrigger
+                  key={adapter.id}
+                  value={adapter.id}
+                  // Venues that do not list the current market switch to their default symbol
+                  className={cn(adapter.id !== activeExchange && !mapSymbol(activeExchange, activeSymbol, adapter.id) && "opacity-60")}
+                >
+                  {adapter.name}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </div>
           
-          <div className="flex items-center">
-            <div className={`h-2 w-2 rounded-full mr-2 ${isConnected ? 'bg-green-500' : 'bg-red-500'}`}></div>
-            <span className="text-sm">{isConnected ? 'Connected' : 'Connecting...'}</span>
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center space-x-2">
+              <Switch id="consolidated" checked={consolidated} onCheckedChange={setConsolidated} />
+              <Label htmlFor="consolidated" className="text-sm">All venues</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="fee-adjusted" checked={feeAdjusted} onCheckedChange={setFeeAdjusted} disabled={!consolidated} />
+              <Label htmlFor="fee-adjusted" className="text-sm">Fee-adjusted</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="paper-trading" checked={paperTrading} onCheckedChange={setPaperTrading} />
+              <Label htmlFor="paper-trading" className="text-sm">Paper trading</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="compact-sizes" checked={compactSizes} onCheckedChange={setCompactSizes} />
+              <Label htmlFor="compact-sizes" className="text-sm">Compact sizes</Label>
+            </div>
+            <Select value={String(bookRows)} onValueChange={(value) => setBookRows(Number(value))}>
+              <SelectTrigger className="w-24" aria-label="Rows">
+                <SelectValue placeholder="Rows" />
+              </SelectTrigger>
+              <SelectContent position="popper">
+                {BOOK_ROW_OPTIONS.map(option => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option} rows
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            
+            <ConnectionStatus 
+              state={connectionState}
+              onReconnect={reconnect}
+              onDisconnect={disconnect}
+            />
           </div>
         </div>
         
@@ -87,69 +385,120 @@ export default function OrderbookViewerPage() {
           <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md p-3 mb-4 text-red-800 dark:text-red-400 flex items-center">
             <AlertCircle className="h-5 w-5 mr-2" />
             {connectionError}
+            {connectionState.status === 'failed' && (
+              <Button size="sm" variant="outline" className="ml-auto h-7" onClick={reconnect}>
+                Retry
+              </Button>
+            )}
           </div>
         )}
         
         <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
           {/* Left column - Order book and depth chart */}
           <div className="lg:col-span-3 space-y-6">
-            <TabsContent value="OKX" forceMount={activeExchange === 'OKX'} className="mt-0">
-              {/* Using key to ensure complete component refresh when exchange changes */}
-              <OrderBook 
-                key={`orderbook-OKX-${activeSymbol}`}
-                bids={orderBook.bids} 
-                asks={orderBook.asks}
-                simulation={simulation}
-                isConnected={activeExchange === 'OKX' && isConnected}
-              />
-            </TabsContent>
-            
-            <TabsContent value="Bybit" forceMount={activeExchange === 'Bybit'} className="mt-0">
-              <OrderBook 
-                key={`orderbook-Bybit-${activeSymbol}`}
-                bids={orderBook.bids} 
-                asks={orderBook.asks}
-                simulation={simulation}
-                isConnected={activeExchange === 'Bybit' && isConnected}
-              />
-            </TabsContent>
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+              <div className="xl:col-span-2">
+                {getExchangeAdapters().map(adapter => (
+                  <TabsContent key={adapter.id} value={adapter.id} className="mt-0">
+                    {/* Using key to ensure complete component refresh when exchange changes */}
+                    <OrderBook 
+                      key={`orderbook-${adapter.id}-${activeSymbol}`}
+                      bids={displayedBook.bids} 
+                      asks={displayedBook.asks}
+                      simulations={displayedSimulations}
+                      ghostOrders={displayedGhosts}
+                      connectionState={consolidated ? consolidatedState : connectionState}
+                      onReconnect={reconnect}
+                      formatter={formatter}
+                      venues={consolidated ? consolidatedVenues : undefined}
+                      rows={bookRows}
+                    />
+                  </TabsContent>
+                ))}
+              </div>
+              
+              <TimeAndSales trades={trades} isSupported={tradesSupported} formatter={formatter} />
+            </div>
             
-            <TabsContent value="Deribit" forceMount={activeExchange === 'Deribit'} className="mt-0">
-              <OrderBook 
-                key={`orderbook-Deribit-${activeSymbol}`}
-                bids={orderBook.bids} 
-                asks={orderBook.asks}
-                simulation={simulation}
-                isConnected={activeExchange === 'Deribit' && isConnected}
-              />
-            </TabsContent>
-            
-            <DepthChart orderBook={orderBook} simulation={simulation} />
+            <DepthChart
+              orderBook={analyticsBook}
+              simulations={displayedSimulations}
+              conditionalOrders={displayedConditionals}
+              formatter={formatter}
+            />
           </div>
           
           {/* Right column - Order simulation form and metrics */}
           <div className="lg:col-span-2 space-y-6">
-            {simulation ? (
-              <SimulationResults 
-                simulation={simulation} 
-                onReset={resetSimulation}
-              />
-            ) : (
-              <OrderSimulationForm 
-                form={form}
-                onFormChange={(updates) => {
-                  if (updates.exchange && updates.exchange !== activeExchange) {
-                    handleFormExchangeChange(updates as { exchange: Exchange });
-                  } else {
-                    updateForm(updates);
-                  }
-                }}
-                onSimulate={simulate}
-                isProcessing={false}
-              />
+            <OrderSimulationForm 
+              form={form}
+              onFormChange={(updates) => {
+                if (updates.exchange && updates.exchange !== activeExchange) {
+                  handleFormExchangeChange(updates as { exchange: Exchange });
+                } else {
+                  // Stream the book of the symbol being simulated
+                  if (updates.symbol) setActiveSymbol(updates.symbol);
+                  updateForm(updates);
+                }
+              }}
+              onSimulate={handleSimulate}
+              isProcessing={false}
+              tradesSupported={tradesSupported}
+              referencePrice={form.side === 'Buy' ? displayedBook.asks[0]?.price : displayedBook.bids[0]?.price}
+              triggerReference={getReferencePrice(
+                form.triggerSource,
+                consolidated ? consolidatedSimulationBook : orderBook,
+                lastTradePrice
+              )}
+            />
+            
+            <SimulationBlotter
+              runs={runs}
+              selectedId={selectedRunId}
+              onSelect={setSelectedRunId}
+              onRerun={handleRerun}
+              onTogglePin={togglePin}
+              onRemove={handleRemoveRun}
+              onClear={handleClearRuns}
+              canRerun={canRerun}
+              exchange={activeExchange}
+              symbol={activeSymbol}
+              formatter={formatter}
+            />
+            
+            {selectedRun && (
+              <>
+                <SimulationResults 
+                  simulation={selectedRun.simulation} 
+                  onClose={() => setSelectedRunId(null)}
+                  formatter={runFormatter}
+                  ghostOrder={selectedGhost}
+                  conditional={selectedRun.conditional}
+                />
+                {routingPlans[selectedRun.id] && <RoutingResults plan={routingPlans[selectedRun.id]} formatter={runFormatter} />}
+                {/* Routing needs every venue's book, which is only streamed in the consolidated view */}
+                {!routingPlans[selectedRun.id] && !consolidated && listings.length > 1 && !selectedRun.conditional && (
+                  <p className="text-xs text-muted-foreground px-1">
+                    Turn on "All venues" before simulating to plan this order across the {listings.length} venues listing it.
+                  </p>
+                )}
+              </>
             )}
             
-            <OrderbookImbalance orderBook={orderBook} />
+            {paperTrading && paperAccount && (
+              <PaperTrading account={paperAccount} exchange={activeExchange} onReset={resetPaperAccount} />
+            )}
+            
+            <GhostOrders
+              orders={ghostOrders}
+              onCancel={cancelOrder}
+              onClear={clearInactive}
+              exchange={activeExchange}
+              symbol={activeSymbol}
+              formatter={formatter}
+            />
+            
+            <OrderbookImbalance orderBook={analyticsBook} formatter={formatter} />
           </div>
         </div>
       </Tabs>
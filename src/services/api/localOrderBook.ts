@@ -0,0 +1,95 @@
+import { OrderBook, OrderLevel } from '@/types/orderbook';
+
+// A price level exactly as the venue sent it. The raw strings are kept
+// because checksums are computed over the venue's own formatting.
+export type RawLevel = [price: string, quantity: string];
+
+type BookSide = 'bids' | 'asks';
+
+/**
+ * Local L2 order book maintained from venue snapshots and deltas.
+ * Levels are keyed by numeric price; a delta with quantity 0 deletes the level.
+ */
+export class LocalOrderBook {
+  private bids = new Map<number, RawLevel>();
+  private asks = new Map<number, RawLevel>();
+  private initialized = false;
+
+  // Venue sequencing state of the last applied message (update id / cross sequence)
+  public lastUpdateId: number | null = null;
+  public lastSequence: number | null = null;
+
+  public get isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  public reset(): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.initialized = false;
+    this.lastUpdateId = null;
+    this.lastSequence = null;
+  }
+
+  public applySnapshot(bids: RawLevel[], asks: RawLevel[]): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.applyLevels('bids', bids);
+    this.applyLevels('asks', asks);
+    this.initialized = true;
+  }
+
+  public applyDelta(bids: RawLevel[], asks: RawLevel[]): void {
+    this.applyLevels('bids', bids);
+    this.applyLevels('asks', asks);
+  }
+
+  // Drops levels beyond the given depth, for venues whose books are defined at a fixed depth
+  public truncate(depth: number): void {
+    (['bids', 'asks'] as BookSide[]).forEach(side => {
+      const keep = new Set(this.getLevels(side, depth).map(([price]) => parseFloat(price)));
+      [...this[side].keys()].forEach(price => {
+        if (!keep.has(price)) this[side].delete(price);
+      });
+    });
+  }
+
+  /**
+   * Returns the levels of one side sorted best-first
+   *
+   * @param side Book side
+   * @param depth Optional maximum number of levels
+   */
+  public getLevels(side: BookSide, depth?: number): RawLevel[] {
+    const entries = [...this[side].entries()]
+      .sort((a, b) => side === 'bids' ? b[0] - a[0] : a[0] - b[0])
+      .map(([, level]) => level);
+
+    return depth !== undefined ? entries.slice(0, depth) : entries;
+  }
+
+  public toOrderBook(timestamp: number, depth?: number): OrderBook {
+    const toOrderLevel = ([price, quantity]: RawLevel): OrderLevel => ({
+      price: parseFloat(price),
+      quantity: parseFloat(quantity),
+    });
+
+    return {
+      bids: this.getLevels('bids', depth).map(toOrderLevel),
+      asks: this.getLevels('asks', depth).map(toOrderLevel),
+      timestamp,
+    };
+  }
+
+  private applyLevels(side: BookSide, levels: RawLevel[]): void {
+    const book = this[side];
+    for (const [price, quantity] of levels) {
+      const key = parseFloat(price);
+      if (parseFloat(quantity) === 0) {
+        book.delete(key);
+      } else {
+        book.set(key, [price, quantity]);
+      }
+    }
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * GETs a venue REST endpoint and parses the JSON body
+ *
+ * @param url Absolute endpoint URL including the query string
+ */
+export const fetchJson = async <T>(url: string): Promise<T> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed with status ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+};
@@ -1,218 +1,482 @@
-import { Exchange } from '@/types/orderbook';
+import { ConnectionState, Exchange, Trade } from '@/types/orderbook';
+import { LocalOrderBook } from '@/services/api/localOrderBook';
+import { ExchangeAdapter, FeedContext, getExchangeAdapter } from '@/services/exchanges';
 
-interface WebSocketConfig {
-  url: string;
-  subscriptionMessage: (symbol: string) => unknown;
-  parseMessage: (message: unknown) => unknown;
+interface Subscriber {
+  onMessage: (data: unknown) => void;
+  onError: (error: Event) => void;
+  onStateChange: (state: ConnectionState) => void;
 }
 
-const exchangeConfigs: Record<Exchange, WebSocketConfig> = {
-  OKX: {
-    url: 'wss://ws.okx.com:8443/ws/v5/public',
-    subscriptionMessage: (symbol: string) => JSON.stringify({
-      op: 'subscribe',
-      args: [{
-        channel: 'books',
-        instId: symbol
-      }]
-    }),
-    parseMessage: (message: unknown) => {
-      // OKX specific message parsing
-      const msg = message as Record<string, unknown>;
-      if (!msg.data) return null;
-      
-      try {
-        const data = typeof msg.data === 'string' ? JSON.parse(msg.data) : msg.data as Record<string, unknown>[];
-        if (!Array.isArray(data) || !data[0] || !('asks' in data[0]) || !('bids' in data[0])) return null;
-        
-        const orderBookData = data[0] as { asks: string[][], bids: string[][] };
-        
-        return {
-          bids: orderBookData.bids.map((bid: string[]) => ({ price: parseFloat(bid[0]), quantity: parseFloat(bid[1]) })),
-          asks: orderBookData.asks.map((ask: string[]) => ({ price: parseFloat(ask[0]), quantity: parseFloat(ask[1]) })),
-          timestamp: new Date().getTime(),
-        };
-      } catch (error) {
-        console.error('Error parsing OKX message:', error);
-        return null;
-      }
-    }
-  },
-  Bybit: {
-    url: 'wss://stream.bybit.com/v5/public/spot',
-    subscriptionMessage: (symbol: string) => JSON.stringify({
-      op: 'subscribe',
-      args: [`orderbook.50.${symbol}`]
-    }),
-    parseMessage: (message: unknown) => {
-      // Bybit specific message parsing
-      const msg = message as Record<string, unknown>;
-      if (!msg.data || typeof msg.topic !== 'string' || msg.topic.indexOf('orderbook') === -1) return null;
-      
-      try {
-        const data = typeof msg.data === 'string' ? JSON.parse(msg.data) : msg.data as Record<string, unknown>;
-        if (!data || !('a' in data) || !('b' in data)) return null;
-        
-        const orderBookData = data as { a: string[][], b: string[][], ts?: number };
-        
-        return {
-          bids: orderBookData.b.slice(0, 50).map((bid: string[]) => ({ price: parseFloat(bid[0]), quantity: parseFloat(bid[1]) })),
-          asks: orderBookData.a.slice(0, 50).map((ask: string[]) => ({ price: parseFloat(ask[0]), quantity: parseFloat(ask[1]) })),
-          timestamp: orderBookData.ts || new Date().getTime(),
-        };
-      } catch (error) {
-        console.error('Error parsing Bybit message:', error);
-        return null;
-      }
-    }
-  },
-  Deribit: {
-    url: 'wss://www.deribit.com/ws/api/v2',
-    subscriptionMessage: (symbol: string) => JSON.stringify({
-      jsonrpc: '2.0',
-      id: 1,
-      method: 'public/subscribe',
-      params: {
-        channels: [`book.${symbol}.none.20.100ms`]
-      }
-    }),
-    parseMessage: (message: unknown) => {
-      // Deribit specific message parsing
-      const msg = message as { params?: { data?: unknown } };
-      if (!msg.params?.data) return null;
-      
-      try {
-        const data = msg.params.data as {
-          bids: [number, number][],
-          asks: [number, number][],
-          timestamp?: number
-        };
-        
-        return {
-          bids: data.bids.map((bid) => ({ price: bid[0], quantity: bid[1] })),
-          asks: data.asks.map((ask) => ({ price: ask[0], quantity: ask[1] })),
-          timestamp: data.timestamp || new Date().getTime(),
-        };
-      } catch (error) {
-        console.error('Error parsing Deribit message:', error);
-        return null;
-      }
-    }
-  }
-};
+type SocketStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'failed';
 
-class WebSocketService {
+// Channels a stream can carry for a symbol
+type StreamKind = 'book' | 'trades';
+
+const streamKey = (kind: StreamKind, symbol: string) => `${kind}:${symbol}`;
+
+// A book stream with no update for this long is considered stale and resubscribed
+export const STALE_FEED_TIMEOUT = Number(import.meta.env.VITE_STALE_FEED_TIMEOUT) || 15000;
+const WATCHDOG_INTERVAL = 1000;
+
+// One subscribed channel of a symbol on a venue socket, shared by every consumer of it
+interface Stream {
+  key: string;
+  kind: StreamKind;
+  symbol: string;
+  book: LocalOrderBook;
+  context: FeedContext;
+  subscribers: Set<Subscriber>;
+  lastMessage: unknown;
+  lastUpdateAt: number;
+  hasData: boolean;
+  stale: boolean;
+  state: ConnectionState;
+}
+
+/**
+ * A single venue socket multiplexing any number of symbol streams.
+ * Streams are reference counted: the venue subscription is sent for the first
+ * subscriber and the `unsubscribe` op once the last one leaves.
+ */
+class ExchangeConnection {
   private socket: WebSocket | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectTimeout: NodeJS.Timeout | null = null;
-  private currentExchange: Exchange | null = null;
-  private currentSymbol: string | null = null;
-  private messageCallback: ((data: unknown) => void) | null = null;
-  private errorCallback: ((error: Event) => void) | null = null;
-
-  public connect(
-    exchange: Exchange, 
-    symbol: string, 
-    onMessage: (data: unknown) => void, 
-    onError?: (error: Event) => void
-  ): void {
-    this.disconnect(); // Close existing connection if any
-    
-    this.currentExchange = exchange;
-    this.currentSymbol = symbol;
-    this.messageCallback = onMessage;
-    this.errorCallback = onError || (() => {});
-    
-    const config = exchangeConfigs[exchange];
-    if (!config) {
-      console.error(`Unsupported exchange: ${exchange}`);
-      return;
+  private nextRetryAt = 0;
+  private status: SocketStatus = 'idle';
+  private pingInterval: NodeJS.Timeout | null = null;
+  private watchdogInterval: NodeJS.Timeout | null = null;
+  private streams = new Map<string, Stream>();
+  private config: ExchangeAdapter;
+
+  constructor(
+    private readonly exchange: Exchange,
+    private readonly onIdle: () => void
+  ) {
+    this.config = getExchangeAdapter(exchange);
+  }
+
+  public subscribe(kind: StreamKind, symbol: string, subscriber: Subscriber): () => void {
+    const key = streamKey(kind, symbol);
+    let stream = this.streams.get(key);
+
+    if (!stream) {
+      const book = new LocalOrderBook();
+      const created: Stream = {
+        key,
+        kind,
+        symbol,
+        book,
+        context: {
+          symbol,
+          book,
+          resync: () => this.resync(key),
+          emit: (data) => this.deliver(created, data)
+        },
+        subscribers: new Set(),
+        lastMessage: null,
+        lastUpdateAt: Date.now(),
+        hasData: false,
+        stale: false,
+        state: { status: 'idle' }
+      };
+      stream = created;
+      this.streams.set(key, stream);
+      stream.state = this.getStreamState(stream);
+
+      // While connecting or waiting for a scheduled reconnect, the stream is subscribed once the socket opens
+      if (this.isConnected()) {
+        this.subscribeStream(stream);
+      } else if (!this.socket && !this.reconnectTimeout) {
+        this.open();
+      }
+    } else if (stream.kind === 'book' && stream.lastMessage) {
+      // Late joiners get the current book straight away instead of waiting for the next push
+      subscriber.onMessage(stream.lastMessage);
     }
-    
+
+    stream.subscribers.add(subscriber);
+    subscriber.onStateChange(stream.state);
+
+    return () => this.unsubscribe(key, subscriber);
+  }
+
+  public close(): void {
+    this.teardownSocket();
+    this.status = 'idle';
+    this.streams.clear();
+  }
+
+  // Manual reconnect: also recovers a connection that gave up after too many attempts
+  public reconnect(): void {
+    if (this.streams.size === 0) return;
+
+    this.teardownSocket();
+    this.reconnectAttempts = 0;
+    this.open();
+  }
+
+  public isConnected(): boolean {
+    return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+  }
+
+  private unsubscribe(key: string, subscriber: Subscriber): void {
+    const stream = this.streams.get(key);
+    if (!stream) return;
+
+    stream.subscribers.delete(subscriber);
+    if (stream.subscribers.size > 0) return;
+
+    this.streams.delete(key);
+    if (this.isConnected()) {
+      this.send(stream.kind === 'book'
+        ? this.config.unsubscriptionMessage(stream.symbol)
+        : this.config.trades.unsubscriptionMessage(stream.symbol));
+    }
+
+    if (this.streams.size === 0) {
+      this.close();
+      this.onIdle();
+    }
+  }
+
+  private open(): void {
+    // Never leave a previous socket or a pending retry behind, or messages arrive twice
+    this.teardownSocket();
+    this.setStatus('connecting');
+
     try {
-      this.socket = new WebSocket(config.url);
-      
+      this.socket = new WebSocket(this.config.url);
+
       this.socket.onopen = () => {
-        console.log(`WebSocket connected to ${exchange}`);
+        console.log(`WebSocket connected to ${this.exchange}`);
         this.reconnectAttempts = 0;
-        if (this.socket && this.currentSymbol) {
-          this.socket.send(config.subscriptionMessage(this.currentSymbol) as string);
-        }
+        this.config.openMessages?.().forEach(message => this.send(message));
+        this.streams.forEach(stream => {
+          stream.book.reset();
+          stream.lastUpdateAt = Date.now();
+          stream.hasData = false;
+          stream.stale = false;
+          this.subscribeStream(stream);
+        });
+        this.startTimers();
+        this.setStatus('open');
       };
-      
+
       this.socket.onmessage = (event) => {
         try {
-          const message = JSON.parse(event.data);
-          const parsedData = config.parseMessage(message);
-          
-          if (parsedData && this.messageCallback) {
-            this.messageCallback(parsedData);
+          const raw = String(event.data);
+          let message: unknown = null;
+          try {
+            message = JSON.parse(raw);
+          } catch {
+            // Some heartbeat frames (e.g. OKX `pong`) are plain text
+          }
+
+          if (this.config.keepalive.handleFrame(raw, message, (reply) => this.send(reply))) return;
+          if (message === null) return;
+          if (this.config.handleConnectionMessage?.(message)) return;
+
+          // Trade prints are checked first since some venues share routing fields between channels
+          const tradeSymbol = this.config.trades?.getMessageSymbol(message);
+          if (tradeSymbol) {
+            const tradeStream = this.streams.get(streamKey('trades', tradeSymbol));
+            const trades = tradeStream ? this.config.trades.parseMessage(message) : null;
+            if (trades?.length) {
+              const receivedAt = Date.now();
+              this.deliver(tradeStream, trades.map(trade => ({ ...trade, receivedAt })));
+            }
+            return;
+          }
+
+          const symbol = this.config.getMessageSymbol(message);
+          const stream = symbol ? this.streams.get(streamKey('book', symbol)) : undefined;
+          if (!stream) return;
+
+          const parsedData = this.config.parseMessage(message, stream.context);
+          if (parsedData) {
+            this.deliver(stream, parsedData);
           }
         } catch (error) {
           console.error('Error parsing WebSocket message:', error);
         }
       };
-      
+
       this.socket.onerror = (error) => {
-        console.error(`WebSocket error for ${exchange}:`, error);
-        if (this.errorCallback) {
-          this.errorCallback(error);
-        }
+        console.error(`WebSocket error for ${this.exchange}:`, error);
+        this.streams.forEach(stream => {
+          stream.subscribers.forEach(subscriber => subscriber.onError(error));
+        });
       };
-      
+
       this.socket.onclose = () => {
-        console.log(`WebSocket connection closed for ${exchange}`);
+        console.log(`WebSocket connection closed for ${this.exchange}`);
+        this.stopTimers();
+        this.socket = null;
         this.attemptReconnect();
       };
     } catch (error) {
-      console.error(`Error connecting to ${exchange} WebSocket:`, error);
+      console.error(`Error connecting to ${this.exchange} WebSocket:`, error);
+      this.socket = null;
       this.attemptReconnect();
     }
   }
-  
+
+  private teardownSocket(): void {
+    this.stopTimers();
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
+    if (this.socket) {
+      // Detach handlers first so an intentional close doesn't trigger a reconnect
+      this.socket.onopen = null;
+      this.socket.onclose = null;
+      this.socket.onerror = null;
+      this.socket.onmessage = null;
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  private setStatus(status: SocketStatus): void {
+    this.status = status;
+    this.streams.forEach(stream => this.emitState(stream));
+  }
+
+  private getStreamState(stream: Stream): ConnectionState {
+    switch (this.status) {
+      case 'connecting':
+        return { status: 'connecting' };
+      case 'reconnecting':
+        return { status: 'reconnecting', attempt: this.reconnectAttempts, nextRetryAt: this.nextRetryAt };
+      case 'failed':
+        return { status: 'failed', reason: 'Max reconnect attempts reached' };
+      case 'open':
+        if (stream.stale) return { status: 'stale' };
+        return stream.hasData ? { status: 'subscribed' } : { status: 'open' };
+      default:
+        return { status: 'idle' };
+    }
+  }
+
+  // Notifies subscribers when the derived state of a stream actually changes
+  private emitState(stream: Stream): void {
+    const state = this.getStreamState(stream);
+    if (JSON.stringify(state) === JSON.stringify(stream.state)) return;
+
+    stream.state = state;
+    stream.subscribers.forEach(subscriber => subscriber.onStateChange(state));
+  }
+
+  private startTimers(): void {
+    this.stopTimers();
+
+    const { intervalMs, pingMessage } = this.config.keepalive;
+    if (intervalMs && pingMessage) {
+      this.pingInterval = setInterval(() => this.send(pingMessage()), intervalMs);
+    }
+
+    this.watchdogInterval = setInterval(() => this.checkStaleStreams(), WATCHDOG_INTERVAL);
+  }
+
+  private stopTimers(): void {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+
+    if (this.watchdogInterval) {
+      clearInterval(this.watchdogInterval);
+      this.watchdogInterval = null;
+    }
+  }
+
+  // Flags book streams that stopped updating and resubscribes them; the socket is
+  // only recycled when every book on it has gone quiet
+  private checkStaleStreams(): void {
+    const now = Date.now();
+    const books = [...this.streams.values()].filter(stream => stream.kind === 'book');
+    // Trade tapes can legitimately be quiet; only books are expected to keep updating
+    const staleBooks = books.filter(stream => now - stream.lastUpdateAt >= STALE_FEED_TIMEOUT);
+    if (!staleBooks.length) return;
+
+    staleBooks.forEach(stream => {
+      if (!stream.stale) {
+        stream.stale = true;
+        this.emitState(stream);
+      }
+    });
+
+    if (staleBooks.length === books.length && this.socket) {
+      console.warn(`${this.exchange} feed is stale, forcing a reconnect`);
+      this.stopTimers();
+      this.socket.close();
+      return;
+    }
+
+    staleBooks.forEach(stream => {
+      console.warn(`${this.exchange} ${stream.symbol} book is stale, resubscribing`);
+      // Give the fresh snapshot a full timeout before trying again
+      stream.lastUpdateAt = now;
+      this.resync(stream.key);
+    });
+  }
+
+  // Drops the local book and resubscribes so the venue sends a fresh snapshot
+  private resync(key: string): void {
+    const stream = this.streams.get(key);
+    if (!stream) return;
+
+    stream.book.reset();
+
+    if (!this.isConnected()) return;
+
+    this.send(this.config.unsubscriptionMessage(stream.symbol));
+    this.subscribeStream(stream);
+  }
+
+  private subscribeStream(stream: Stream): void {
+    if (stream.kind === 'trades') {
+      this.send(this.config.trades.subscriptionMessage(stream.symbol));
+      return;
+    }
+
+    this.send(this.config.subscriptionMessage(stream.symbol));
+    this.config.onSubscribe?.(stream.context);
+  }
+
+  private deliver(stream: Stream, data: unknown): void {
+    // Ignore late output of a stream that has since been released
+    if (this.streams.get(stream.key) !== stream) return;
+
+    stream.lastMessage = data;
+    stream.lastUpdateAt = Date.now();
+    if (!stream.hasData || stream.stale) {
+      stream.hasData = true;
+      stream.stale = false;
+      this.emitState(stream);
+    }
+    stream.subscribers.forEach(subscriber => subscriber.onMessage(data));
+  }
+
+  private send(message: unknown): void {
+    this.socket?.send(message as string);
+  }
+
   private attemptReconnect(): void {
+    if (this.streams.size === 0) return;
+
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.error('Max reconnect attempts reached');
+      this.setStatus('failed');
       return;
     }
-    
+
     this.reconnectAttempts++;
-    
+
     const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
-    console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
-    
+    this.nextRetryAt = Date.now() + delay;
+    this.setStatus('reconnecting');
+    console.log(`Attempting to reconnect to ${this.exchange} in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
     }
-    
+
     this.reconnectTimeout = setTimeout(() => {
-      if (this.currentExchange && this.currentSymbol && this.messageCallback) {
-        this.connect(this.currentExchange, this.currentSymbol, this.messageCallback, this.errorCallback || undefined);
+      this.reconnectTimeout = null;
+      if (this.streams.size > 0) {
+        this.open();
       }
     }, delay);
   }
-  
-  public disconnect(): void {
-    if (this.socket) {
-      this.socket.close();
-      this.socket = null;
+}
+
+/**
+ * Connection manager holding one socket per venue, opened lazily on the first
+ * subscription and closed once its last stream is released
+ */
+class WebSocketService {
+  private connections = new Map<Exchange, ExchangeConnection>();
+
+  /**
+   * Subscribes to the order book of a symbol
+   *
+   * @returns A function releasing this subscription
+   */
+  public subscribe(
+    exchange: Exchange,
+    symbol: string,
+    onMessage: (data: unknown) => void,
+    onError?: (error: Event) => void,
+    onStateChange?: (state: ConnectionState) => void
+  ): () => void {
+    if (!getExchangeAdapter(exchange)) {
+      console.error(`Unsupported exchange: ${exchange}`);
+      return () => {};
     }
-    
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-      this.reconnectTimeout = null;
+
+    return this.getConnection(exchange).subscribe('book', symbol, {
+      onMessage,
+      onError: onError || (() => {}),
+      onStateChange: onStateChange || (() => {})
+    });
+  }
+
+  /**
+   * Subscribes to the public trade prints of a symbol
+   *
+   * @returns A function releasing this subscription
+   */
+  public subscribeTrades(
+    exchange: Exchange,
+    symbol: string,
+    onTrades: (trades: Trade[]) => void,
+    onError?: (error: Event) => void,
+    onStateChange?: (state: ConnectionState) => void
+  ): () => void {
+    if (!this.supportsTrades(exchange)) {
+      console.error(`Trades are not supported for exchange: ${exchange}`);
+      return () => {};
     }
-    
-    this.currentExchange = null;
-    this.currentSymbol = null;
-    this.messageCallback = null;
-    this.errorCallback = null;
+
+    return this.getConnection(exchange).subscribe('trades', symbol, {
+      onMessage: (data) => onTrades(data as Trade[]),
+      onError: onError || (() => {}),
+      onStateChange: onStateChange || (() => {})
+    });
   }
-  
-  public isConnected(): boolean {
-    return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+
+  public supportsTrades(exchange: Exchange): boolean {
+    return Boolean(getExchangeAdapter(exchange)?.trades);
+  }
+
+  private getConnection(exchange: Exchange): ExchangeConnection {
+    let connection = this.connections.get(exchange);
+    if (!connection) {
+      connection = new ExchangeConnection(exchange, () => this.connections.delete(exchange));
+      this.connections.set(exchange, connection);
+    }
+    return connection;
+  }
+
+  public reconnect(exchange: Exchange): void {
+    this.connections.get(exchange)?.reconnect();
+  }
+
+  public disconnectAll(): void {
+    this.connections.forEach(connection => connection.close());
+    this.connections.clear();
+  }
+
+  public isConnected(exchange: Exchange): boolean {
+    return this.connections.get(exchange)?.isConnected() ?? false;
   }
 }
 
-export default new WebSocketService();
\ No newline at end of file
+export default new WebSocketService();
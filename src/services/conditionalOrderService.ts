@@ -0,0 +1,116 @@
+import { ConditionalOrder, OrderBook, OrderForm, OrderType, TriggerSource } from '@/types/orderbook';
+import { getMidPrice } from '@/services/impactService';
+
+export const CONDITIONAL_ORDER_TYPES: OrderType[] = ['Stop', 'StopLimit', 'TakeProfit', 'TrailingStop'];
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  Market: 'Market',
+  Limit: 'Limit',
+  Stop: 'Stop',
+  StopLimit: 'Stop Limit',
+  TakeProfit: 'Take Profit',
+  TrailingStop: 'Trailing Stop'
+};
+
+export const isConditionalOrder = (form: OrderForm): boolean => CONDITIONAL_ORDER_TYPES.includes(form.type);
+
+// Order types that carry a limit price
+export const hasLimitPrice = (type: OrderType): boolean => type === 'Limit' || type === 'StopLimit';
+
+// Order types armed at a fixed trigger price; trailing stops derive theirs
+export const hasTriggerPrice = (type: OrderType): boolean => type === 'Stop' || type === 'StopLimit' || type === 'TakeProfit';
+
+export const getReferencePrice = (
+  source: TriggerSource = 'mid',
+  orderBook: OrderBook,
+  lastTradePrice: number | null
+): number | null => {
+  return source === 'last' ? lastTradePrice : getMidPrice(orderBook);
+};
+
+// Stops fire when the price moves against the order's direction, take-profits when it moves with it
+const firesAbove = (form: OrderForm): boolean => form.type === 'TakeProfit' ? form.side === 'Sell' : form.side === 'Buy';
+
+const isBreached = (form: OrderForm, triggerPrice: number, reference: number): boolean => {
+  return firesAbove(form) ? reference >= triggerPrice : reference <= triggerPrice;
+};
+
+const isTriggered = ({ form, triggerPrice }: ConditionalOrder, reference: number): boolean => {
+  return isBreached(form, triggerPrice, reference);
+};
+
+/**
+ * Checks that a fixed trigger is still ahead of the market. A trigger the reference
+ * price has already crossed (e.g. a buy stop below the price) would fire on the first tick.
+ *
+ * @param form Conditional order to arm
+ * @param reference Current reference price of the order's trigger source, if known
+ * @returns The problem to report, or null
+ */
+export const validateTrigger = (form: OrderForm, reference: number | null): { title: string, description: string } | null => {
+  if (!hasTriggerPrice(form.type) || !form.triggerPrice || reference === null) return null;
+  if (!isBreached(form, form.triggerPrice, reference)) return null;
+
+  const source = form.triggerSource === 'last' ? 'last trade' : 'mid price';
+  return {
+    title: "Trigger already reached",
+    description: `A ${form.side.toLowerCase()} ${ORDER_TYPE_LABELS[form.type].toLowerCase()} fires at or ${firesAbove(form) ? 'above' : 'below'} `
+      + `its trigger, and the ${source} is already at ${reference}. Move the trigger ${firesAbove(form) ? 'above' : 'below'} it.`
+  };
+};
+
+/**
+ * Arms a conditional order. A trailing stop starts `trailingDistance` away from
+ * the current reference price.
+ *
+ * @returns Null for a trailing stop without a reference price to trail, or a trigger
+ * the reference has already crossed (see `validateTrigger`)
+ */
+export const armConditionalOrder = (form: OrderForm, reference: number | null): ConditionalOrder | null => {
+  const armedAt = Date.now();
+  if (validateTrigger(form, reference)) return null;
+
+  if (form.type === 'TrailingStop') {
+    if (reference === null) return null;
+    const distance = form.trailingDistance ?? 0;
+    return {
+      form,
+      status: 'armed',
+      triggerPrice: form.side === 'Sell' ? reference - distance : reference + distance,
+      extremePrice: reference,
+      referencePrice: reference,
+      armedAt
+    };
+  }
+
+  return { form, status: 'armed', triggerPrice: form.triggerPrice ?? 0, referencePrice: reference, armedAt };
+};
+
+/**
+ * Moves an armed order with a new reference price: a trailing stop follows the
+ * best price seen, then every order checks its trigger
+ */
+export const updateConditionalOrder = (order: ConditionalOrder, reference: number): ConditionalOrder => {
+  if (order.status !== 'armed') return order;
+
+  let updated: ConditionalOrder = { ...order, referencePrice: reference };
+  if (order.form.type === 'TrailingStop' && order.extremePrice !== undefined) {
+    const isSell = order.form.side === 'Sell';
+    const extremePrice = isSell ? Math.max(order.extremePrice, reference) : Math.min(order.extremePrice, reference);
+    const distance = order.form.trailingDistance ?? 0;
+    updated = { ...updated, extremePrice, triggerPrice: isSell ? extremePrice - distance : extremePrice + distance };
+  }
+
+  return isTriggered(updated, reference)
+    ? { ...updated, status: 'triggered', triggeredAt: Date.now() }
+    : updated;
+};
+
+// The order a triggered conditional order is simulated as
+export const getTriggeredForm = ({ form }: ConditionalOrder): OrderForm => {
+  return {
+    ...form,
+    type: form.type === 'StopLimit' ? 'Limit' : 'Market',
+    price: form.type === 'StopLimit' ? form.price : null
+  };
+};
@@ -0,0 +1,63 @@
+import { Exchange, OrderBook, OrderLevel } from '@/types/orderbook';
+import { getFeeTier, getInstrumentType } from '@/services/feeService';
+
+export interface VenueBook {
+  exchange: Exchange;
+  symbol: string;
+  book: OrderBook;
+}
+
+export interface ConsolidationOptions {
+  // Shift every price by the venue's regular taker fee: asks up, bids down
+  feeAdjusted?: boolean;
+  // Levels taken from each venue per side; the full book when unset
+  depth?: number;
+}
+
+const mergeSide = (
+  venueBooks: VenueBook[],
+  side: 'bids' | 'asks',
+  feeAdjusted: boolean,
+  depth?: number
+): OrderLevel[] => {
+  const levels = new Map<number, OrderLevel>();
+
+  venueBooks.forEach(({ exchange, symbol, book }) => {
+    const taker = feeAdjusted ? getFeeTier(exchange, getInstrumentType(exchange, symbol)).taker : 0;
+    // Buying pays the fee on top of the ask, selling receives the bid minus the fee
+    const adjust = side === 'asks' ? 1 + taker : 1 - taker;
+
+    book[side].slice(0, depth).forEach(({ price, quantity }) => {
+      const effectivePrice = price * adjust;
+      let level = levels.get(effectivePrice);
+      if (!level) {
+        level = { price: effectivePrice, quantity: 0, venues: {} };
+        levels.set(effectivePrice, level);
+      }
+      const venues = level.venues ?? {};
+      venues[exchange] = (venues[exchange] ?? 0) + quantity;
+      level.quantity += quantity;
+      level.venues = venues;
+    });
+  });
+
+  return [...levels.values()].sort((a, b) => side === 'bids' ? b.price - a.price : a.price - b.price);
+};
+
+/**
+ * Merges the books of one market on several venues into a single ladder. Every
+ * level records how much of its quantity each venue contributes.
+ *
+ * @param venueBooks Latest book of each venue, all quoting the same canonical instrument
+ * @param options Fee adjustment and per-venue depth
+ */
+export const consolidateOrderBooks = (
+  venueBooks: VenueBook[],
+  { feeAdjusted = false, depth }: ConsolidationOptions = {}
+): OrderBook => {
+  return {
+    bids: mergeSide(venueBooks, 'bids', feeAdjusted, depth),
+    asks: mergeSide(venueBooks, 'asks', feeAdjusted, depth),
+    timestamp: Math.max(0, ...venueBooks.map(({ book }) => book.timestamp))
+  };
+};
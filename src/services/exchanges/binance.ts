@@ -0,0 +1,229 @@
+import { OrderBook, Trade } from '@/types/orderbook';
+import { ExchangeAdapter, FeedContext } from '@/services/exchanges/types';
+import { LocalOrderBook, RawLevel } from '@/services/api/localOrderBook';
+import { fetchJson } from '@/services/api/restClient';
+import { concatenatedSpotSymbols } from '@/services/exchanges/symbols';
+
+interface BinanceDepthEvent {
+  e: 'depthUpdate';
+  s: string;
+  U: number; // first update id in the event
+  u: number; // final update id in the event
+  b: RawLevel[];
+  a: RawLevel[];
+}
+
+interface BinanceDepthSnapshot {
+  lastUpdateId: number;
+  bids: RawLevel[];
+  asks: RawLevel[];
+}
+
+interface BinanceTradeEvent {
+  e: 'trade';
+  s: string;
+  t: number; // trade id
+  p: string;
+  q: string;
+  T: number; // trade time
+  m: boolean; // whether the buyer was the maker
+}
+
+// Per-stream synchronisation state while bootstrapping from the REST snapshot
+interface SyncState {
+  buffer: BinanceDepthEvent[];
+}
+
+export interface BinanceAdapterOptions {
+  wsUrl?: string;
+  restUrl?: string;
+  snapshotLimit?: number;
+}
+
+const MAX_BUFFERED_EVENTS = 1000;
+const MAX_SNAPSHOT_ATTEMPTS = 3;
+const SNAPSHOT_RETRY_DELAY = 2000;
+
+/**
+ * Applies one diff event on top of the local book following Binance's
+ * documented procedure. Returns false when the event breaks continuity.
+ */
+const applyDepthEvent = (book: LocalOrderBook, event: BinanceDepthEvent): boolean => {
+  // Already contained in the snapshot (or a previous event)
+  if (event.u <= book.lastUpdateId) return true;
+
+  // Otherwise the event must start at or before lastUpdateId + 1, or updates were missed
+  if (event.U > book.lastUpdateId + 1) return false;
+
+  book.applyDelta(event.b, event.a);
+  book.lastUpdateId = event.u;
+  return true;
+};
+
+/**
+ * Creates a Binance spot adapter. URLs are configurable so the adapter can be
+ * pointed at a local fake server.
+ */
+export const createBinanceAdapter = ({
+  wsUrl = import.meta.env.VITE_BINANCE_WS_URL || 'wss://stream.binance.com:9443/ws',
+  restUrl = import.meta.env.VITE_BINANCE_REST_URL || 'https://api.binance.com',
+  snapshotLimit = 1000
+}: BinanceAdapterOptions = {}): ExchangeAdapter => {
+  // A newer state for the same context supersedes any in-flight bootstrap
+  const syncStates = new WeakMap<FeedContext, SyncState>();
+
+  const streamName = (symbol: string) => `${symbol.toLowerCase()}@depth@100ms`;
+  const tradeStreamName = (symbol: string) => `${symbol.toLowerCase()}@trade`;
+
+  const fetchSnapshot = (symbol: string): Promise<BinanceDepthSnapshot> => {
+    return fetchJson<BinanceDepthSnapshot>(`${restUrl}/api/v3/depth?symbol=${symbol}&limit=${snapshotLimit}`);
+  };
+
+  const bootstrap = async (context: FeedContext, state: SyncState, attempt = 1): Promise<void> => {
+    const { book, symbol } = context;
+    const isCurrent = () => syncStates.get(context) === state;
+
+    try {
+      const snapshot = await fetchSnapshot(symbol);
+      if (!isCurrent()) return;
+
+      // A snapshot older than the first buffered event cannot be bridged; fetch again
+      const firstEvent = state.buffer[0];
+      if (firstEvent && snapshot.lastUpdateId < firstEvent.U) {
+        if (attempt >= MAX_SNAPSHOT_ATTEMPTS) {
+          context.resync();
+        } else {
+          await bootstrap(context, state, attempt + 1);
+        }
+        return;
+      }
+
+      book.applySnapshot(snapshot.bids, snapshot.asks);
+      book.lastUpdateId = snapshot.lastUpdateId;
+
+      const buffered = state.buffer;
+      state.buffer = [];
+      for (const event of buffered) {
+        if (!applyDepthEvent(book, event)) {
+          console.warn(`Binance ${symbol} buffered events are not continuous, resynchronising`);
+          context.resync();
+          return;
+        }
+      }
+
+      context.emit(book.toOrderBook(new Date().getTime()));
+    } catch (error) {
+      console.error(`Error fetching Binance depth snapshot for ${symbol}:`, error);
+      setTimeout(() => {
+        if (isCurrent()) context.resync();
+      }, SNAPSHOT_RETRY_DELAY);
+    }
+  };
+
+  return {
+    id: 'Binance',
+    name: 'Binance',
+    url: wsUrl,
+    color: '#eab308',
+    feeSchedule: {
+      spot: [
+        { name: 'Regular', maker: 0.001, taker: 0.001 },
+        { name: 'VIP 1', maker: 0.0009, taker: 0.001 },
+        { name: 'VIP 4', maker: 0.0006, taker: 0.00075 },
+        { name: 'VIP 9', maker: 0.00011, taker: 0.00023 }
+      ]
+    },
+    defaultSymbol: 'BTCUSDT',
+    getSymbols: () => ['BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'XRPUSDT', 'DOGEUSDT'],
+    formatSymbol: (symbol: string) => symbol.replace(/(USDT|USDC|FDUSD|BTC|ETH)$/, '/$1'),
+    ...concatenatedSpotSymbols(['USDT', 'USDC', 'FDUSD', 'BTC', 'ETH']),
+    // The server pings at the protocol level and browsers answer automatically;
+    // only the SUBSCRIBE/UNSUBSCRIBE acknowledgements need to be swallowed
+    keepalive: {
+      handleFrame: (raw: string, message: unknown) => {
+        const msg = message as { result?: unknown, id?: number } | null;
+        return msg !== null && 'result' in msg && 'id' in msg;
+      }
+    },
+    subscriptionMessage: (symbol: string) => JSON.stringify({
+      method: 'SUBSCRIBE',
+      params: [streamName(symbol)],
+      id: 1
+    }),
+    unsubscriptionMessage: (symbol: string) => JSON.stringify({
+      method: 'UNSUBSCRIBE',
+      params: [streamName(symbol)],
+      id: 2
+    }),
+    getMessageSymbol: (message: unknown) => {
+      const msg = message as { e?: string, s?: string };
+      return msg.e === 'depthUpdate' && msg.s ? msg.s : null;
+    },
+    onSubscribe: (context: FeedContext) => {
+      const state: SyncState = { buffer: [] };
+      syncStates.set(context, state);
+      context.book.reset();
+      bootstrap(context, state);
+    },
+    parseMessage: (message: unknown, context: FeedContext): OrderBook | null => {
+      const event = message as BinanceDepthEvent;
+      const { book, resync } = context;
+
+      try {
+        // Until the snapshot has been applied, diff events are only buffered
+        if (!book.isInitialized) {
+          const state = syncStates.get(context);
+          if (state) {
+            state.buffer.push(event);
+            if (state.buffer.length > MAX_BUFFERED_EVENTS) state.buffer.shift();
+          }
+          return null;
+        }
+
+        if (!applyDepthEvent(book, event)) {
+          console.warn(`Binance ${event.s} depth gap (${book.lastUpdateId} -> ${event.U}), resynchronising`);
+          resync();
+          return null;
+        }
+
+        return book.toOrderBook(new Date().getTime());
+      } catch (error) {
+        console.error('Error parsing Binance message:', error);
+        return null;
+      }
+    },
+    trades: {
+      subscriptionMessage: (symbol: string) => JSON.stringify({
+        method: 'SUBSCRIBE',
+        params: [tradeStreamName(symbol)],
+        id: 3
+      }),
+      unsubscriptionMessage: (symbol: string) => JSON.stringify({
+        method: 'UNSUBSCRIBE',
+        params: [tradeStreamName(symbol)],
+        id: 4
+      }),
+      getMessageSymbol: (message: unknown) => {
+        const msg = message as { e?: string, s?: string };
+        return msg.e === 'trade' && msg.s ? msg.s : null;
+      },
+      parseMessage: (message: unknown): Trade[] | null => {
+        const trade = message as BinanceTradeEvent;
+        if (trade.e !== 'trade') return null;
+
+        // The aggressor is the seller when the buyer was the maker
+        return [{
+          id: String(trade.t),
+          exchange: 'Binance',
+          symbol: trade.s,
+          price: parseFloat(trade.p),
+          size: parseFloat(trade.q),
+          side: trade.m ? 'Sell' : 'Buy',
+          timestamp: trade.T
+        }];
+      }
+    }
+  };
+};
+
+export const binanceAdapter = createBinanceAdapter();
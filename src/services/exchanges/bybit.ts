@@ -0,0 +1,151 @@
+import { Instrument, Trade } from '@/types/orderbook';
+import { ExchangeAdapter, FeedContext } from '@/services/exchanges/types';
+import { RawLevel } from '@/services/api/localOrderBook';
+import { fetchJson } from '@/services/api/restClient';
+import { concatenatedSpotSymbols } from '@/services/exchanges/symbols';
+
+// Deepest public spot book (1, 50 or 200 levels)
+const BYBIT_BOOK_DEPTH = 200;
+
+export const bybitAdapter: ExchangeAdapter = {
+  id: 'Bybit',
+  name: 'Bybit',
+  url: 'wss://stream.bybit.com/v5/public/spot',
+  color: '#f97316',
+  feeSchedule: {
+    spot: [
+      { name: 'Non-VIP', maker: 0.001, taker: 0.001 },
+      { name: 'VIP 1', maker: 0.000675, taker: 0.0008 },
+      { name: 'VIP 5', maker: 0.0002, taker: 0.0004 },
+      { name: 'Supreme VIP', maker: 0, taker: 0.0002 }
+    ]
+  },
+  defaultSymbol: 'BTCUSDT',
+  getSymbols: () => ['BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'XRPUSDT', 'DOGEUSDT'],
+  fetchInstruments: async (): Promise<Instrument[]> => {
+    const response = await fetchJson<{
+      retCode: number,
+      retMsg: string,
+      result: { list: {
+        symbol: string,
+        baseCoin: string,
+        quoteCoin: string,
+        status: string,
+        lotSizeFilter: { basePrecision: string, minOrderQty: string, minOrderAmt: string },
+        priceFilter: { tickSize: string }
+      }[] }
+    }>('https://api.bybit.com/v5/market/instruments-info?category=spot');
+    if (response.retCode !== 0) throw new Error(`Bybit instruments request failed: ${response.retMsg}`);
+
+    return response.result.list
+      .filter(instrument => instrument.status === 'Trading')
+      .map(instrument => ({
+        exchange: 'Bybit',
+        symbol: instrument.symbol,
+        base: instrument.baseCoin,
+        quote: instrument.quoteCoin,
+        type: 'spot',
+        tickSize: parseFloat(instrument.priceFilter.tickSize),
+        lotSize: parseFloat(instrument.lotSizeFilter.basePrecision),
+        minSize: parseFloat(instrument.lotSizeFilter.minOrderQty),
+        minNotional: parseFloat(instrument.lotSizeFilter.minOrderAmt),
+        contractValue: 1
+      }));
+  },
+  formatSymbol: (symbol: string) => symbol.replace(/(USDT|USDC|BTC|ETH)$/, '/$1'),
+  ...concatenatedSpotSymbols(['USDT', 'USDC', 'BTC', 'ETH']),
+  keepalive: {
+    intervalMs: 20000,
+    pingMessage: () => JSON.stringify({ op: 'ping' }),
+    handleFrame: (raw: string, message: unknown) => {
+      const msg = message as { op?: string } | null;
+      return msg?.op === 'ping' || msg?.op === 'pong';
+    }
+  },
+  subscriptionMessage: (symbol: string) => JSON.stringify({
+    op: 'subscribe',
+    args: [`orderbook.${BYBIT_BOOK_DEPTH}.${symbol}`]
+  }),
+  unsubscriptionMessage: (symbol: string) => JSON.stringify({
+    op: 'unsubscribe',
+    args: [`orderbook.${BYBIT_BOOK_DEPTH}.${symbol}`]
+  }),
+  getMessageSymbol: (message: unknown) => {
+    // Topics look like orderbook.200.BTCUSDT
+    const msg = message as { topic?: string };
+    return typeof msg.topic === 'string' ? msg.topic.split('.').pop() || null : null;
+  },
+  parseMessage: (message: unknown, { book, resync }: FeedContext) => {
+    // Bybit specific message parsing
+    const msg = message as Record<string, unknown>;
+    if (!msg.data || typeof msg.topic !== 'string' || msg.topic.indexOf('orderbook') === -1) return null;
+
+    try {
+      const data = typeof msg.data === 'string' ? JSON.parse(msg.data) : msg.data as Record<string, unknown>;
+      if (!data || !('a' in data) || !('b' in data)) return null;
+
+      const orderBookData = data as { a: string[][], b: string[][], u: number, seq: number };
+      const toRawLevels = (levels: string[][]) => levels.map(level => [level[0], level[1]] as RawLevel);
+
+      // Bybit re-sends a snapshot (with u = 1 after a service restart) whenever the book must be rebuilt
+      if (msg.type === 'snapshot') {
+        book.applySnapshot(toRawLevels(orderBookData.b), toRawLevels(orderBookData.a));
+      } else if (msg.type === 'delta') {
+        if (!book.isInitialized) return null;
+
+        const missedUpdate = orderBookData.u !== book.lastUpdateId + 1;
+        const outOfOrder = book.lastSequence !== null && orderBookData.seq <= book.lastSequence;
+
+        if (missedUpdate || outOfOrder) {
+          console.warn(`Bybit book gap (u ${book.lastUpdateId} -> ${orderBookData.u}), requesting a fresh snapshot`);
+          resync();
+          return null;
+        }
+
+        book.applyDelta(toRawLevels(orderBookData.b), toRawLevels(orderBookData.a));
+      } else {
+        return null;
+      }
+
+      book.lastUpdateId = orderBookData.u;
+      book.lastSequence = orderBookData.seq;
+
+      return book.toOrderBook(new Date().getTime(), BYBIT_BOOK_DEPTH);
+    } catch (error) {
+      console.error('Error parsing Bybit message:', error);
+      return null;
+    }
+  },
+  trades: {
+    subscriptionMessage: (symbol: string) => JSON.stringify({
+      op: 'subscribe',
+      args: [`publicTrade.${symbol}`]
+    }),
+    unsubscriptionMessage: (symbol: string) => JSON.stringify({
+      op: 'unsubscribe',
+      args: [`publicTrade.${symbol}`]
+    }),
+    getMessageSymbol: (message: unknown) => {
+      // Topics look like publicTrade.BTCUSDT
+      const msg = message as { topic?: string };
+      return typeof msg.topic === 'string' && msg.topic.startsWith('publicTrade.')
+        ? msg.topic.slice('publicTrade.'.length)
+        : null;
+    },
+    parseMessage: (message: unknown): Trade[] | null => {
+      // S is the taker side, T the trade time
+      const msg = message as { data?: { i: string, s: string, p: string, v: string, S: string, T: number }[] };
+      if (!Array.isArray(msg.data)) return null;
+
+      return msg.data.map(trade => ({
+        id: trade.i,
+        exchange: 'Bybit',
+        symbol: trade.s,
+        price: parseFloat(trade.p),
+        size: parseFloat(trade.v),
+        side: trade.S === 'Buy' ? 'Buy' : 'Sell',
+        timestamp: trade.T
+      }));
+    }
+  }
+};
@@ -0,0 +1,169 @@
+import { OrderBook, Trade } from '@/types/orderbook';
+import { ExchangeAdapter, FeedContext } from '@/services/exchanges/types';
+import { RawLevel } from '@/services/api/localOrderBook';
+import { separatedSpotSymbols } from '@/services/exchanges/symbols';
+
+interface CoinbaseLevelUpdate {
+  side: 'bid' | 'offer';
+  price_level: string;
+  new_quantity: string;
+}
+
+interface CoinbaseL2Event {
+  type: 'snapshot' | 'update';
+  product_id: string;
+  updates: CoinbaseLevelUpdate[];
+}
+
+interface CoinbaseTrade {
+  trade_id: string;
+  product_id: string;
+  price: string;
+  size: string;
+  side: 'BUY' | 'SELL'; // Maker side
+  time: string;
+}
+
+interface CoinbaseTradesEvent {
+  type: 'snapshot' | 'update';
+  trades: CoinbaseTrade[];
+}
+
+interface CoinbaseMessage {
+  channel?: string;
+  sequence_num?: number;
+  events?: CoinbaseL2Event[];
+}
+
+// level2 snapshots hold the whole book; only the levels nearest the touch are emitted
+const COINBASE_BOOK_DEPTH = 200;
+
+// `sequence_num` is counted per connection across every channel and product,
+// so gaps are detected here and every stream is invalidated through an epoch
+let lastSequenceNum: number | null = null;
+let gapEpoch = 0;
+// Epoch in force when each stream applied its snapshot
+const snapshotEpochs = new WeakMap<FeedContext, number>();
+
+export const coinbaseAdapter: ExchangeAdapter = {
+  id: 'Coinbase',
+  name: 'Coinbase',
+  url: 'wss://advanced-trade-ws.coinbase.com',
+  color: '#0ea5e9',
+  // Advanced Trade tiers by 30-day volume in USD
+  feeSchedule: {
+    spot: [
+      { name: 'Intro 1', maker: 0.006, taker: 0.012 },
+      { name: 'Advanced 1', maker: 0.0025, taker: 0.004 },
+      { name: 'Advanced 3', maker: 0.00125, taker: 0.0025 },
+      { name: 'VIP 1', maker: 0.0006, taker: 0.0015 }
+    ]
+  },
+  defaultSymbol: 'BTC-USD',
+  getSymbols: () => ['BTC-USD', 'ETH-USD', 'SOL-USD', 'XRP-USD', 'DOGE-USD'],
+  // Product ids are BASE-QUOTE
+  formatSymbol: (symbol: string) => symbol.replace('-', '/'),
+  ...separatedSpotSymbols('-'),
+  // Coinbase closes quiet connections unless the heartbeats channel is subscribed
+  openMessages: () => {
+    lastSequenceNum = null;
+    return [JSON.stringify({ type: 'subscribe', channel: 'heartbeats' })];
+  },
+  keepalive: {
+    handleFrame: () => false
+  },
+  handleConnectionMessage: (message: unknown) => {
+    const msg = message as CoinbaseMessage;
+
+    if (typeof msg.sequence_num === 'number') {
+      if (lastSequenceNum !== null && msg.sequence_num !== lastSequenceNum + 1) {
+        console.warn(`Coinbase sequence gap (${lastSequenceNum} -> ${msg.sequence_num}), resynchronising books`);
+        gapEpoch++;
+      }
+      lastSequenceNum = msg.sequence_num;
+    }
+
+    return msg.channel === 'heartbeats' || msg.channel === 'subscriptions';
+  },
+  subscriptionMessage: (symbol: string) => JSON.stringify({
+    type: 'subscribe',
+    product_ids: [symbol],
+    channel: 'level2'
+  }),
+  unsubscriptionMessage: (symbol: string) => JSON.stringify({
+    type: 'unsubscribe',
+    product_ids: [symbol],
+    channel: 'level2'
+  }),
+  getMessageSymbol: (message: unknown) => {
+    const msg = message as CoinbaseMessage;
+    return msg.channel === 'l2_data' ? msg.events?.[0]?.product_id || null : null;
+  },
+  parseMessage: (message: unknown, context: FeedContext): OrderBook | null => {
+    const msg = message as CoinbaseMessage;
+    const { book, resync } = context;
+    if (!msg.events?.length) return null;
+
+    try {
+      for (const event of msg.events) {
+        const bids: RawLevel[] = [];
+        const asks: RawLevel[] = [];
+        event.updates.forEach(update => {
+          (update.side === 'bid' ? bids : asks).push([update.price_level, update.new_quantity]);
+        });
+
+        if (event.type === 'snapshot') {
+          book.applySnapshot(bids, asks);
+          snapshotEpochs.set(context, gapEpoch);
+        } else {
+          if (!book.isInitialized) return null;
+
+          if (snapshotEpochs.get(context) !== gapEpoch) {
+            resync();
+            return null;
+          }
+
+          book.applyDelta(bids, asks);
+        }
+      }
+
+      return book.toOrderBook(new Date().getTime(), COINBASE_BOOK_DEPTH);
+    } catch (error) {
+      console.error('Error parsing Coinbase message:', error);
+      return null;
+    }
+  },
+  // Trade messages share the connection's sequence numbers, which handleConnectionMessage tracks
+  trades: {
+    subscriptionMessage: (symbol: string) => JSON.stringify({
+      type: 'subscribe',
+      product_ids: [symbol],
+      channel: 'market_trades'
+    }),
+    unsubscriptionMessage: (symbol: string) => JSON.stringify({
+      type: 'unsubscribe',
+      product_ids: [symbol],
+      channel: 'market_trades'
+    }),
+    getMessageSymbol: (message: unknown) => {
+      const msg = message as { channel?: string, events?: CoinbaseTradesEvent[] };
+      return msg.channel === 'market_trades' ? msg.events?.[0]?.trades?.[0]?.product_id || null : null;
+    },
+    parseMessage: (message: unknown): Trade[] | null => {
+      const msg = message as { events?: CoinbaseTradesEvent[] };
+      if (!msg.events?.length) return null;
+
+      // `side` is the maker's, so the aggressor traded the other way
+      return msg.events.flatMap(event => event.trades.map(trade => ({
+        id: trade.trade_id,
+        exchange: 'Coinbase',
+        symbol: trade.product_id,
+        price: parseFloat(trade.price),
+        size: parseFloat(trade.size),
+        side: trade.side === 'BUY' ? 'Sell' : 'Buy',
+        timestamp: Date.parse(trade.time),
+        replayed: event.type === 'snapshot'
+      })));
+    }
+  }
+};
@@ -0,0 +1,324 @@
+import { CanonicalInstrument, Instrument, Trade } from '@/types/orderbook';
+import { ExchangeAdapter, FeedContext } from '@/services/exchanges/types';
+import { RawLevel } from '@/services/api/localOrderBook';
+import { fetchJson } from '@/services/api/restClient';
+
+// Deribit book channel: the grouped top-20 feed, or the full-depth incremental feed.
+// The `raw` interval requires an authorised connection; `100ms` is public.
+type DeribitBookInterval = 'grouped' | '100ms' | 'raw';
+
+const DERIBIT_BOOK_INTERVAL: DeribitBookInterval =
+  (import.meta.env.VITE_DERIBIT_BOOK_INTERVAL as DeribitBookInterval) || 'grouped';
+
+const deribitBookChannel = (symbol: string): string => DERIBIT_BOOK_INTERVAL === 'grouped'
+  ? `book.${symbol}.none.20.100ms`
+  : `book.${symbol}.${DERIBIT_BOOK_INTERVAL}`;
+
+const DERIBIT_MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+// Deribit futures expire at 08:00 UTC
+const DERIBIT_EXPIRY_HOUR = 8;
+
+// Future expiries are spelled like 27DEC24 or 3JAN25
+const parseDeribitExpiry = (code: string): number | null => {
+  const match = /^(\d{1,2})([A-Z]{3})(\d{2})$/.exec(code);
+  const month = match ? DERIBIT_MONTHS.indexOf(match[2]) : -1;
+  if (!match || month < 0) return null;
+  return Date.UTC(2000 + parseInt(match[3], 10), month, parseInt(match[1], 10), DERIBIT_EXPIRY_HOUR);
+};
+
+const formatDeribitExpiry = (expiry: number): string => {
+  const date = new Date(expiry);
+  return `${date.getUTCDate()}${DERIBIT_MONTHS[date.getUTCMonth()]}${String(date.getUTCFullYear() % 100).padStart(2, '0')}`;
+};
+
+// Strikes below one use d as the decimal point, e.g. 0d625
+const parseDeribitStrike = (code: string): number | null => {
+  const strike = parseFloat(code.replace('d', '.'));
+  return Number.isFinite(strike) ? strike : null;
+};
+
+const formatDeribitStrike = (strike: number): string => String(strike).replace('.', 'd');
+
+/**
+ * Options (BTC-27DEC24-100000-C) carry a strike and a call/put suffix. Only
+ * coin-settled options are mapped: their premium is quoted in the underlying,
+ * which their per-contract fee is charged in.
+ */
+const deribitOptionToCanonical = (underlying: string, expiryCode: string, strikeCode: string, right: string): CanonicalInstrument | null => {
+  const expiry = parseDeribitExpiry(expiryCode);
+  const strike = parseDeribitStrike(strikeCode);
+  if (underlying.includes('_') || expiry === null || strike === null || (right !== 'C' && right !== 'P')) return null;
+
+  return {
+    base: underlying,
+    quote: underlying,
+    type: 'option',
+    settlement: underlying,
+    expiry,
+    strike,
+    optionType: right === 'C' ? 'call' : 'put'
+  };
+};
+
+/**
+ * Deribit futures are inverse (BTC-PERPETUAL: USD quoted, settled in BTC) or
+ * linear (ETH_USDC-PERPETUAL: quoted and settled in USDC)
+ */
+const deribitToCanonical = (symbol: string): CanonicalInstrument | null => {
+  const parts = symbol.split('-');
+  if (parts.length === 4) return deribitOptionToCanonical(parts[0], parts[1], parts[2], parts[3]);
+  if (parts.length !== 2) return null;
+
+  const [underlying, suffix] = parts;
+  const [base, linearQuote] = underlying.split('_');
+  const quote = linearQuote ?? 'USD';
+  const settlement = linearQuote ?? base;
+
+  if (suffix === 'PERPETUAL') return { base, quote, type: 'perpetual', settlement };
+
+  const expiry = parseDeribitExpiry(suffix);
+  return expiry === null ? null : { base, quote, type: 'future', settlement, expiry };
+};
+
+const deribitFromCanonical = (instrument: CanonicalInstrument): string | null => {
+  const { base, quote, type, settlement, expiry, strike, optionType } = instrument;
+  if (type === 'option') {
+    const isCoinSettled = quote === base && (settlement ?? base) === base;
+    if (!isCoinSettled || !expiry || strike === undefined || !optionType) return null;
+    return `${base}-${formatDeribitExpiry(expiry)}-${formatDeribitStrike(strike)}-${optionType === 'call' ? 'C' : 'P'}`;
+  }
+  if (type !== 'perpetual' && type !== 'future') return null;
+
+  const isInverse = quote === 'USD' && (settlement ?? base) === base;
+  const isLinear = quote === 'USDC' && (settlement ?? quote) === quote;
+  if (!isInverse && !isLinear) return null;
+
+  const underlying = isInverse ? base : `${base}_${quote}`;
+  if (type === 'perpetual') return `${underlying}-PERPETUAL`;
+  return expiry ? `${underlying}-${formatDeribitExpiry(expiry)}` : null;
+};
+
+export const deribitAdapter: ExchangeAdapter = {
+  id: 'Deribit',
+  name: 'Deribit',
+  url: 'wss://www.deribit.com/ws/api/v2',
+  color: '#10b981',
+  // Futures are charged on notional (inverse amounts already are USD notional); options
+  // per contract on the underlying, capped at 12.5% of the premium
+  feeSchedule: {
+    perpetual: [
+      { name: 'Default', maker: 0, taker: 0.0005 },
+      { name: 'VIP 1', maker: 0, taker: 0.0004 },
+      { name: 'VIP 2', maker: 0, taker: 0.00035 },
+      { name: 'VIP 3', maker: -0.00005, taker: 0.0003 }
+    ],
+    future: [
+      { name: 'Default', maker: 0, taker: 0.0005 },
+      { name: 'VIP 1', maker: 0, taker: 0.0004 },
+      { name: 'VIP 2', maker: 0, taker: 0.00035 },
+      { name: 'VIP 3', maker: -0.00005, taker: 0.0003 }
+    ],
+    option: [
+      { name: 'Default', maker: 0.0003, taker: 0.0003, perContract: true, capRate: 0.125 },
+      { name: 'VIP 1', maker: 0.0002, taker: 0.00025, perContract: true, capRate: 0.125 },
+      { name: 'VIP 2', maker: 0.0001, taker: 0.0002, perContract: true, capRate: 0.125 },
+      { name: 'VIP 3', maker: 0, taker: 0.00015, perContract: true, capRate: 0.125 }
+    ]
+  },
+  defaultSymbol: 'BTC-PERPETUAL',
+  getSymbols: () => ['BTC-PERPETUAL', 'ETH-PERPETUAL'],
+  fetchInstruments: async (): Promise<Instrument[]> => {
+    const fetchKind = (kind: 'future' | 'option') => fetchJson<{ result: {
+      instrument_name: string,
+      base_currency: string,
+      counter_currency: string,
+      settlement_currency: string,
+      settlement_period: string,
+      tick_size: number,
+      min_trade_amount: number,
+      contract_size: number,
+      expiration_timestamp: number,
+      strike?: number,
+      option_type?: 'call' | 'put',
+      is_active: boolean
+    }[] }>(`https://www.deribit.com/api/v2/public/get_instruments?currency=any&kind=${kind}`);
+    const [futures, options] = await Promise.all([fetchKind('future'), fetchKind('option')]);
+
+    // Amounts are traded in multiples of min_trade_amount
+    const futureInstruments = futures.result
+      .filter(instrument => instrument.is_active)
+      .map(instrument => {
+        const isPerpetual = instrument.settlement_period === 'perpetual';
+        return {
+          exchange: 'Deribit',
+          symbol: instrument.instrument_name,
+          base: instrument.base_currency,
+          quote: instrument.counter_currency,
+          type: isPerpetual ? 'perpetual' : 'future',
+          settlement: instrument.settlement_currency,
+          tickSize: instrument.tick_size,
+          lotSize: instrument.min_trade_amount,
+          minSize: instrument.min_trade_amount,
+          contractValue: instrument.contract_size,
+          expiry: isPerpetual ? undefined : instrument.expiration_timestamp
+        } as Instrument;
+      });
+
+    // Coin-settled options only, premiums quoted in the underlying (see deribitToCanonical)
+    const optionInstruments = options.result
+      .filter(instrument => instrument.is_active && instrument.settlement_currency === instrument.base_currency)
+      .map(instrument => ({
+        exchange: 'Deribit',
+        symbol: instrument.instrument_name,
+        base: instrument.base_currency,
+        quote: instrument.base_currency,
+        type: 'option',
+        settlement: instrument.settlement_currency,
+        tickSize: instrument.tick_size,
+        lotSize: instrument.min_trade_amount,
+        minSize: instrument.min_trade_amount,
+        contractValue: instrument.contract_size,
+        expiry: instrument.expiration_timestamp,
+        strike: instrument.strike,
+        optionType: instrument.option_type
+      } as Instrument));
+
+    return [...futureInstruments, ...optionInstruments];
+  },
+  formatSymbol: (symbol: string) => symbol.replace('-PERPETUAL', ' Perp'),
+  toCanonical: deribitToCanonical,
+  fromCanonical: deribitFromCanonical,
+  openMessages: () => [JSON.stringify({
+    jsonrpc: '2.0',
+    id: 3,
+    method: 'public/set_heartbeat',
+    params: { interval: 30 }
+  })],
+  // Deribit sends `test_request` heartbeats which must be answered with public/test
+  keepalive: {
+    handleFrame: (raw: string, message: unknown, send: (message: string) => void) => {
+      const msg = message as { method?: string, params?: { type?: string }, id?: number } | null;
+      if (msg?.id === 3 || msg?.id === 4) return true;
+      if (msg?.method !== 'heartbeat') return false;
+
+      if (msg.params?.type === 'test_request') {
+        send(JSON.stringify({ jsonrpc: '2.0', id: 4, method: 'public/test', params: {} }));
+      }
+      return true;
+    }
+  },
+  subscriptionMessage: (symbol: string) => JSON.stringify({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'public/subscribe',
+    params: {
+      channels: [deribitBookChannel(symbol)]
+    }
+  }),
+  unsubscriptionMessage: (symbol: string) => JSON.stringify({
+    jsonrpc: '2.0',
+    id: 2,
+    method: 'public/unsubscribe',
+    params: {
+      channels: [deribitBookChannel(symbol)]
+    }
+  }),
+  getMessageSymbol: (message: unknown) => {
+    // Channels look like book.BTC-PERPETUAL.100ms
+    const msg = message as { params?: { channel?: string } };
+    return msg.params?.channel?.split('.')[1] || null;
+  },
+  parseMessage: (message: unknown, { book, resync }: FeedContext) => {
+    // Deribit specific message parsing
+    const msg = message as { params?: { channel?: string, data?: unknown } };
+    if (!msg.params?.data || !msg.params.channel?.startsWith('book.')) return null;
+
+    try {
+      const data = msg.params.data as {
+        type?: 'snapshot' | 'change',
+        change_id?: number,
+        prev_change_id?: number,
+        bids: unknown[][],
+        asks: unknown[][],
+        timestamp?: number
+      };
+
+      if (!data.type) {
+        // Grouped channel: every notification is a complete (top N) book
+        const toRawLevels = (levels: unknown[][]) => levels.map(level => [String(level[0]), String(level[1])] as RawLevel);
+        book.applySnapshot(toRawLevels(data.bids), toRawLevels(data.asks));
+      } else {
+        // Incremental channel: levels arrive as [action, price, amount]
+        const toRawLevels = (levels: unknown[][]) => levels.map(([action, price, amount]) => (
+          [String(price), action === 'delete' ? '0' : String(amount)] as RawLevel
+        ));
+
+        if (data.type === 'snapshot') {
+          book.applySnapshot(toRawLevels(data.bids), toRawLevels(data.asks));
+        } else {
+          if (!book.isInitialized) return null;
+
+          if (data.prev_change_id !== book.lastUpdateId) {
+            console.warn(`Deribit change_id gap (${book.lastUpdateId} -> ${data.prev_change_id}), resubscribing`);
+            resync();
+            return null;
+          }
+
+          book.applyDelta(toRawLevels(data.bids), toRawLevels(data.asks));
+        }
+
+        book.lastUpdateId = data.change_id;
+      }
+
+      return book.toOrderBook(data.timestamp || new Date().getTime());
+    } catch (error) {
+      console.error('Error parsing Deribit message:', error);
+      return null;
+    }
+  },
+  trades: {
+    subscriptionMessage: (symbol: string) => JSON.stringify({
+      jsonrpc: '2.0',
+      id: 5,
+      method: 'public/subscribe',
+      params: {
+        channels: [`trades.${symbol}.100ms`]
+      }
+    }),
+    unsubscriptionMessage: (symbol: string) => JSON.stringify({
+      jsonrpc: '2.0',
+      id: 6,
+      method: 'public/unsubscribe',
+      params: {
+        channels: [`trades.${symbol}.100ms`]
+      }
+    }),
+    getMessageSymbol: (message: unknown) => {
+      // Channels look like trades.BTC-PERPETUAL.100ms
+      const msg = message as { params?: { channel?: string } };
+      return msg.params?.channel?.startsWith('trades.') ? msg.params.channel.split('.')[1] || null : null;
+    },
+    parseMessage: (message: unknown): Trade[] | null => {
+      // direction is the taker direction
+      const msg = message as { params?: { data?: {
+        trade_id: string,
+        instrument_name: string,
+        price: number,
+        amount: number,
+        direction: string,
+        timestamp: number
+      }[] } };
+      if (!Array.isArray(msg.params?.data)) return null;
+
+      return msg.params.data.map(trade => ({
+        id: trade.trade_id,
+        exchange: 'Deribit',
+        symbol: trade.instrument_name,
+        price: trade.price,
+        size: trade.amount,
+        side: trade.direction === 'buy' ? 'Buy' : 'Sell',
+        timestamp: trade.timestamp
+      }));
+    }
+  }
+};
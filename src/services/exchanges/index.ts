@@ -0,0 +1,31 @@
+import { ExchangeAdapter } from '@/services/exchanges/types';
+import { okxAdapter } from '@/services/exchanges/okx';
+import { bybitAdapter } from '@/services/exchanges/bybit';
+import { deribitAdapter } from '@/services/exchanges/deribit';
+import { binanceAdapter } from '@/services/exchanges/binance';
+import { krakenAdapter } from '@/services/exchanges/kraken';
+import { coinbaseAdapter } from '@/services/exchanges/coinbase';
+
+const adapters = new Map<string, ExchangeAdapter>();
+
+export const registerExchange = (adapter: ExchangeAdapter): void => {
+  if (adapters.has(adapter.id)) {
+    console.warn(`Exchange adapter ${adapter.id} is already registered, replacing it`);
+  }
+  adapters.set(adapter.id, adapter);
+};
+
+export const getExchangeAdapter = (id: string): ExchangeAdapter | undefined => adapters.get(id);
+
+// Registered adapters in registration order, which is also the UI order
+export const getExchangeAdapters = (): ExchangeAdapter[] => [...adapters.values()];
+
+// Supported venues: adding one is a new adapter module plus a line here
+registerExchange(okxAdapter);
+registerExchange(bybitAdapter);
+registerExchange(deribitAdapter);
+registerExchange(binanceAdapter);
+registerExchange(krakenAdapter);
+registerExchange(coinbaseAdapter);
+
+export type { ExchangeAdapter, FeedContext, FeeSchedule, FeeTier, KeepaliveStrategy, TradeFeed } from '@/services/exchanges/types';
@@ -0,0 +1,194 @@
+import { OrderBook, Trade } from '@/types/orderbook';
+import { ExchangeAdapter, FeedContext } from '@/services/exchanges/types';
+import { LocalOrderBook, RawLevel } from '@/services/api/localOrderBook';
+import { crc32 } from '@/lib/crc32';
+import { separatedSpotSymbols } from '@/services/exchanges/symbols';
+
+interface KrakenLevel {
+  price: number;
+  qty: number;
+}
+
+interface KrakenBookData {
+  symbol: string;
+  bids: KrakenLevel[];
+  asks: KrakenLevel[];
+  checksum: number;
+  timestamp?: string;
+}
+
+interface KrakenTrade {
+  symbol: string;
+  side: 'buy' | 'sell'; // Taker side
+  price: number;
+  qty: number;
+  trade_id: number;
+  timestamp: string;
+}
+
+interface KrakenPair {
+  symbol: string;
+  price_precision: number;
+  qty_precision: number;
+}
+
+interface Precision {
+  price: number;
+  qty: number;
+}
+
+// Subscribed book depth; Kraken books must be truncated to it after every update
+const KRAKEN_BOOK_DEPTH = 100;
+// Kraken checksums cover the best 10 levels of each side
+const KRAKEN_CHECKSUM_DEPTH = 10;
+
+// Price/qty precisions per pair, filled from the instrument channel
+const precisions = new Map<string, Precision>();
+
+// Kraken checksum fields: fixed precision, decimal point removed, leading zeros stripped
+const checksumField = (value: string, decimals: number): string => {
+  return parseFloat(value).toFixed(decimals).replace('.', '').replace(/^0+/, '');
+};
+
+const krakenChecksum = (book: LocalOrderBook, precision: Precision): number => {
+  const side = (levels: RawLevel[]) => levels
+    .map(([price, qty]) => checksumField(price, precision.price) + checksumField(qty, precision.qty))
+    .join('');
+
+  // Asks (best first) followed by bids (best first)
+  return crc32(
+    side(book.getLevels('asks', KRAKEN_CHECKSUM_DEPTH)) + side(book.getLevels('bids', KRAKEN_CHECKSUM_DEPTH))
+  );
+};
+
+const bookParams = (symbol: string) => ({
+  channel: 'book',
+  symbol: [symbol],
+  depth: KRAKEN_BOOK_DEPTH
+});
+
+// The subscription snapshot replays the last 50 prints
+const tradeParams = (symbol: string) => ({
+  channel: 'trade',
+  symbol: [symbol]
+});
+
+export const krakenAdapter: ExchangeAdapter = {
+  id: 'Kraken',
+  name: 'Kraken',
+  url: 'wss://ws.kraken.com/v2',
+  color: '#8b5cf6',
+  // Tiers by 30-day volume in USD
+  feeSchedule: {
+    spot: [
+      { name: 'Starter', maker: 0.0025, taker: 0.004 },
+      { name: '$50K+', maker: 0.0014, taker: 0.0024 },
+      { name: '$1M+', maker: 0.0008, taker: 0.0018 },
+      { name: '$10M+', maker: 0.0002, taker: 0.001 }
+    ]
+  },
+  defaultSymbol: 'BTC/EUR',
+  getSymbols: () => ['BTC/EUR', 'ETH/EUR', 'SOL/EUR', 'BTC/USD', 'ETH/USD'],
+  formatSymbol: (symbol: string) => symbol,
+  ...separatedSpotSymbols('/'),
+  // The instrument channel supplies the precisions needed to verify book checksums
+  openMessages: () => [JSON.stringify({
+    method: 'subscribe',
+    params: { channel: 'instrument', snapshot: true }
+  })],
+  keepalive: {
+    intervalMs: 30000,
+    pingMessage: () => JSON.stringify({ method: 'ping' }),
+    handleFrame: (raw: string, message: unknown) => {
+      const msg = message as { method?: string, channel?: string } | null;
+      return msg?.channel === 'heartbeat' || msg?.method === 'pong'
+        || msg?.method === 'subscribe' || msg?.method === 'unsubscribe';
+    }
+  },
+  handleConnectionMessage: (message: unknown) => {
+    const msg = message as { channel?: string, data?: { pairs?: KrakenPair[] } };
+    if (msg.channel !== 'instrument') return false;
+
+    msg.data?.pairs?.forEach(pair => {
+      precisions.set(pair.symbol, { price: pair.price_precision, qty: pair.qty_precision });
+    });
+    return true;
+  },
+  subscriptionMessage: (symbol: string) => JSON.stringify({
+    method: 'subscribe',
+    params: bookParams(symbol)
+  }),
+  unsubscriptionMessage: (symbol: string) => JSON.stringify({
+    method: 'unsubscribe',
+    params: bookParams(symbol)
+  }),
+  getMessageSymbol: (message: unknown) => {
+    const msg = message as { channel?: string, data?: { symbol?: string }[] };
+    return msg.channel === 'book' ? msg.data?.[0]?.symbol || null : null;
+  },
+  parseMessage: (message: unknown, { book, resync }: FeedContext): OrderBook | null => {
+    const msg = message as { type?: string, data?: KrakenBookData[] };
+    const data = msg.data?.[0];
+    if (!data) return null;
+
+    try {
+      const precision = precisions.get(data.symbol);
+      const toRawLevels = (levels: KrakenLevel[]) => levels.map(({ price, qty }) => (
+        precision
+          ? [price.toFixed(precision.price), qty.toFixed(precision.qty)] as RawLevel
+          : [String(price), String(qty)] as RawLevel
+      ));
+
+      if (msg.type === 'snapshot') {
+        book.applySnapshot(toRawLevels(data.bids), toRawLevels(data.asks));
+      } else if (msg.type === 'update') {
+        if (!book.isInitialized) return null;
+        book.applyDelta(toRawLevels(data.bids), toRawLevels(data.asks));
+        book.truncate(KRAKEN_BOOK_DEPTH);
+      } else {
+        return null;
+      }
+
+      // Without the pair's precisions the checksum cannot be reproduced yet
+      if (precision && krakenChecksum(book, precision) !== data.checksum) {
+        console.warn(`Kraken ${data.symbol} checksum mismatch, resubscribing for a fresh snapshot`);
+        resync();
+        return null;
+      }
+
+      return book.toOrderBook(new Date().getTime());
+    } catch (error) {
+      console.error('Error parsing Kraken message:', error);
+      return null;
+    }
+  },
+  trades: {
+    subscriptionMessage: (symbol: string) => JSON.stringify({
+      method: 'subscribe',
+      params: tradeParams(symbol)
+    }),
+    unsubscriptionMessage: (symbol: string) => JSON.stringify({
+      method: 'unsubscribe',
+      params: tradeParams(symbol)
+    }),
+    getMessageSymbol: (message: unknown) => {
+      const msg = message as { channel?: string, data?: { symbol?: string }[] };
+      return msg.channel === 'trade' ? msg.data?.[0]?.symbol || null : null;
+    },
+    parseMessage: (message: unknown): Trade[] | null => {
+      const msg = message as { type?: string, data?: KrakenTrade[] };
+      if (!Array.isArray(msg.data)) return null;
+
+      return msg.data.map(trade => ({
+        id: String(trade.trade_id),
+        exchange: 'Kraken',
+        symbol: trade.symbol,
+        price: trade.price,
+        size: trade.qty,
+        side: trade.side === 'buy' ? 'Buy' : 'Sell',
+        timestamp: Date.parse(trade.timestamp),
+        replayed: msg.type === 'snapshot'
+      }));
+    }
+  }
+};
@@ -0,0 +1,150 @@
+import { Instrument, Trade } from '@/types/orderbook';
+import { ExchangeAdapter, FeedContext } from '@/services/exchanges/types';
+import { LocalOrderBook, RawLevel } from '@/services/api/localOrderBook';
+import { crc32Signed } from '@/lib/crc32';
+import { fetchJson } from '@/services/api/restClient';
+import { separatedSpotSymbols } from '@/services/exchanges/symbols';
+
+// OKX checksums cover the best 25 levels of each side
+const OKX_CHECKSUM_DEPTH = 25;
+
+const okxChecksum = (book: LocalOrderBook): number => {
+  const bids = book.getLevels('bids', OKX_CHECKSUM_DEPTH);
+  const asks = book.getLevels('asks', OKX_CHECKSUM_DEPTH);
+  const parts: string[] = [];
+
+  // Levels are interleaved bid:ask, with leftover levels of the longer side appended
+  for (let i = 0; i < OKX_CHECKSUM_DEPTH; i++) {
+    if (bids[i]) parts.push(`${bids[i][0]}:${bids[i][1]}`);
+    if (asks[i]) parts.push(`${asks[i][0]}:${asks[i][1]}`);
+  }
+
+  return crc32Signed(parts.join(':'));
+};
+
+export const okxAdapter: ExchangeAdapter = {
+  id: 'OKX',
+  name: 'OKX',
+  url: 'wss://ws.okx.com:8443/ws/v5/public',
+  color: '#64748b',
+  // Regular user tiers; VIP levels depend on 30-day volume and assets
+  feeSchedule: {
+    spot: [
+      { name: 'Lv1', maker: 0.0008, taker: 0.001 },
+      { name: 'VIP 1', maker: 0.00045, taker: 0.0005 },
+      { name: 'VIP 5', maker: 0.0001, taker: 0.0003 },
+      { name: 'VIP 8', maker: -0.0001, taker: 0.00015 }
+    ]
+  },
+  defaultSymbol: 'BTC-USDT',
+  getSymbols: () => ['BTC-USDT', 'ETH-USDT', 'SOL-USDT', 'XRP-USDT', 'DOGE-USDT'],
+  fetchInstruments: async (): Promise<Instrument[]> => {
+    const response = await fetchJson<{
+      code: string,
+      msg: string,
+      data: { instId: string, baseCcy: string, quoteCcy: string, tickSz: string, lotSz: string, minSz: string, state: string }[]
+    }>('https://www.okx.com/api/v5/public/instruments?instType=SPOT');
+    if (response.code !== '0') throw new Error(`OKX instruments request failed: ${response.msg}`);
+
+    return response.data
+      .filter(instrument => instrument.state === 'live')
+      .map(instrument => ({
+        exchange: 'OKX',
+        symbol: instrument.instId,
+        base: instrument.baseCcy,
+        quote: instrument.quoteCcy,
+        type: 'spot',
+        tickSize: parseFloat(instrument.tickSz),
+        lotSize: parseFloat(instrument.lotSz),
+        minSize: parseFloat(instrument.minSz),
+        contractValue: 1
+      }));
+  },
+  formatSymbol: (symbol: string) => symbol.replace('-', '/'),
+  ...separatedSpotSymbols('-'),
+  // OKX drops connections idle for 30s unless it receives the text `ping`
+  keepalive: {
+    intervalMs: 20000,
+    pingMessage: () => 'ping',
+    handleFrame: (raw: string) => raw === 'pong'
+  },
+  subscriptionMessage: (symbol: string) => JSON.stringify({
+    op: 'subscribe',
+    args: [{
+      channel: 'books',
+      instId: symbol
+    }]
+  }),
+  unsubscriptionMessage: (symbol: string) => JSON.stringify({
+    op: 'unsubscribe',
+    args: [{
+      channel: 'books',
+      instId: symbol
+    }]
+  }),
+  getMessageSymbol: (message: unknown) => {
+    const msg = message as { arg?: { channel?: string, instId?: string } };
+    return msg.arg?.channel === 'books' ? msg.arg.instId || null : null;
+  },
+  parseMessage: (message: unknown, { book, resync }: FeedContext) => {
+    // OKX specific message parsing
+    const msg = message as Record<string, unknown>;
+    if (!msg.data) return null;
+
+    try {
+      const data = typeof msg.data === 'string' ? JSON.parse(msg.data) : msg.data as Record<string, unknown>[];
+      if (!Array.isArray(data) || !data[0] || !('asks' in data[0]) || !('bids' in data[0])) return null;
+
+      const orderBookData = data[0] as { asks: string[][], bids: string[][], checksum?: number };
+      const toRawLevels = (levels: string[][]) => levels.map(level => [level[0], level[1]] as RawLevel);
+
+      if (msg.action === 'snapshot') {
+        book.applySnapshot(toRawLevels(orderBookData.bids), toRawLevels(orderBookData.asks));
+      } else if (book.isInitialized) {
+        book.applyDelta(toRawLevels(orderBookData.bids), toRawLevels(orderBookData.asks));
+      } else {
+        // Updates are meaningless until we hold a snapshot
+        return null;
+      }
+
+      if (typeof orderBookData.checksum === 'number' && okxChecksum(book) !== orderBookData.checksum) {
+        console.warn('OKX checksum mismatch, resubscribing for a fresh snapshot');
+        resync();
+        return null;
+      }
+
+      return book.toOrderBook(new Date().getTime());
+    } catch (error) {
+      console.error('Error parsing OKX message:', error);
+      return null;
+    }
+  },
+  trades: {
+    subscriptionMessage: (symbol: string) => JSON.stringify({
+      op: 'subscribe',
+      args: [{ channel: 'trades', instId: symbol }]
+    }),
+    unsubscriptionMessage: (symbol: string) => JSON.stringify({
+      op: 'unsubscribe',
+      args: [{ channel: 'trades', instId: symbol }]
+    }),
+    getMessageSymbol: (message: unknown) => {
+      const msg = message as { arg?: { channel?: string, instId?: string } };
+      return msg.arg?.channel === 'trades' ? msg.arg.instId || null : null;
+    },
+    parseMessage: (message: unknown): Trade[] | null => {
+      const msg = message as { data?: { instId: string, tradeId: string, px: string, sz: string, side: string, ts: string }[] };
+      if (!Array.isArray(msg.data)) return null;
+
+      return msg.data.map(trade => ({
+        id: trade.tradeId,
+        exchange: 'OKX',
+        symbol: trade.instId,
+        price: parseFloat(trade.px),
+        size: parseFloat(trade.sz),
+        side: trade.side === 'buy' ? 'Buy' : 'Sell',
+        timestamp: parseInt(trade.ts, 10)
+      }));
+    }
+  }
+};
@@ -0,0 +1,37 @@
+import { CanonicalInstrument } from '@/types/orderbook';
+import { ExchangeAdapter } from '@/services/exchanges/types';
+
+type SymbolMapping = Pick<ExchangeAdapter, 'toCanonical' | 'fromCanonical'>;
+
+/**
+ * Spot markets spelled BASE<separator>QUOTE, e.g. BTC-USDT or BTC/EUR
+ */
+export const separatedSpotSymbols = (separator: string): SymbolMapping => ({
+  toCanonical: (symbol: string): CanonicalInstrument | null => {
+    const parts = symbol.split(separator);
+    if (parts.length !== 2 || !parts[0] || !parts[1]) return null;
+    return { base: parts[0], quote: parts[1], type: 'spot' };
+  },
+  fromCanonical: (instrument: CanonicalInstrument) => (
+    instrument.type === 'spot' ? `${instrument.base}${separator}${instrument.quote}` : null
+  )
+});
+
+/**
+ * Spot markets spelled BASEQUOTE, e.g. BTCUSDT. The pair is split on the venue's
+ * quote currencies, longest first so that FDUSD is not read as USD.
+ */
+export const concatenatedSpotSymbols = (quotes: string[]): SymbolMapping => {
+  const byLength = [...quotes].sort((a, b) => b.length - a.length);
+
+  return {
+    toCanonical: (symbol: string): CanonicalInstrument | null => {
+      const quote = byLength.find(candidate => symbol.endsWith(candidate) && symbol.length > candidate.length);
+      if (!quote) return null;
+      return { base: symbol.slice(0, -quote.length), quote, type: 'spot' };
+    },
+    fromCanonical: (instrument: CanonicalInstrument) => (
+      instrument.type === 'spot' && quotes.includes(instrument.quote) ? `${instrument.base}${instrument.quote}` : null
+    )
+  };
+};
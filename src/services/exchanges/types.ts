@@ -0,0 +1,81 @@
+import { CanonicalInstrument, Instrument, InstrumentType, OrderBook, Trade } from '@/types/orderbook';
+import { LocalOrderBook } from '@/services/api/localOrderBook';
+
+// Per-stream state handed to the parsers of stateful (incremental) feeds
+export interface FeedContext {
+  symbol: string;
+  book: LocalOrderBook;
+  resync: () => void;
+  // Publishes a book produced outside of message parsing (e.g. after a REST snapshot)
+  emit: (book: OrderBook) => void;
+}
+
+// How a venue keeps an idle connection alive
+export interface KeepaliveStrategy {
+  // Interval for pingMessage; venues without client pings leave both unset
+  intervalMs?: number;
+  pingMessage?: () => string;
+  // Consumes heartbeat frames (message is null for non-JSON frames); returns true when handled
+  handleFrame: (raw: string, message: unknown, send: (message: string) => void) => boolean;
+}
+
+// Public trades channel of a venue
+export interface TradeFeed {
+  subscriptionMessage: (symbol: string) => string;
+  unsubscriptionMessage: (symbol: string) => string;
+  // Returns the symbol for trade messages and null for anything else
+  getMessageSymbol: (message: unknown) => string | null;
+  parseMessage: (message: unknown) => Trade[] | null;
+}
+
+// One fee level (regular or VIP). Rates are fractions of notional (0.001 = 0.1%);
+// negative maker rates are rebates.
+export interface FeeTier {
+  name: string;
+  maker: number;
+  taker: number;
+  // Rates apply per contract to the underlying instead of the order value (Deribit options)
+  perContract?: boolean;
+  // Fee ceiling as a fraction of the order value (Deribit options: 12.5% of the premium)
+  capRate?: number;
+}
+
+// Fee tiers per instrument type, regular tier first
+export type FeeSchedule = Partial<Record<InstrumentType, FeeTier[]>>;
+
+/**
+ * Everything the app needs to know about a venue. Each venue lives in its own
+ * module and is registered once in `services/exchanges/index.ts`.
+ */
+export interface ExchangeAdapter {
+  id: string;
+  name: string;
+  url: string;
+  // Venue colour in consolidated views
+  color: string;
+  feeSchedule: FeeSchedule;
+  keepalive: KeepaliveStrategy;
+  // Messages sent once after the socket opens (server heartbeats, reference data channels)
+  openMessages?: () => string[];
+  defaultSymbol: string;
+  // Featured instruments, offered first in the symbol selectors
+  getSymbols: () => string[];
+  // Full instrument list with trading rules from the venue's REST API
+  fetchInstruments?: () => Promise<Instrument[]>;
+  // Human readable instrument name, e.g. BTC-USDT -> BTC/USDT
+  formatSymbol: (symbol: string) => string;
+  // Maps a venue symbol to the canonical instrument, or null when it cannot be parsed
+  toCanonical: (symbol: string) => CanonicalInstrument | null;
+  // Venue symbol for a canonical instrument, or null when the venue has no such market
+  fromCanonical: (instrument: CanonicalInstrument) => string | null;
+  subscriptionMessage: (symbol: string) => string;
+  unsubscriptionMessage: (symbol: string) => string;
+  // Extracts the symbol a message belongs to so it can be routed to its stream
+  getMessageSymbol: (message: unknown) => string | null;
+  parseMessage: (message: unknown, context: FeedContext) => OrderBook | null;
+  // Handles venue-level messages not tied to one stream; returns true when consumed
+  handleConnectionMessage?: (message: unknown) => boolean;
+  // Called every time the stream (re)subscribes, for venues that bootstrap out of band
+  onSubscribe?: (context: FeedContext) => void;
+  trades?: TradeFeed;
+}
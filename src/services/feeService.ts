@@ -0,0 +1,51 @@
+import { Exchange, InstrumentType } from '@/types/orderbook';
+import { getExchangeAdapter, FeeTier } from '@/services/exchanges';
+import { toCanonical } from '@/services/instrumentService';
+
+export type Liquidity = 'maker' | 'taker';
+
+// Used for venues or instrument types without a published schedule
+const FALLBACK_TIER: FeeTier = { name: 'Default', maker: 0.001, taker: 0.001 };
+
+export const getInstrumentType = (exchange: Exchange, symbol: string): InstrumentType => {
+  return toCanonical(exchange, symbol)?.type ?? 'spot';
+};
+
+/**
+ * Fee tiers of a venue for one instrument type, regular tier first
+ */
+export const getFeeTiers = (exchange: Exchange, type: InstrumentType): FeeTier[] => {
+  return getExchangeAdapter(exchange)?.feeSchedule[type] ?? [];
+};
+
+/**
+ * Resolves a fee tier, falling back to the regular tier
+ *
+ * @param exchange Exchange id
+ * @param type Instrument type
+ * @param tierName Selected VIP tier, if any
+ */
+export const getFeeTier = (exchange: Exchange, type: InstrumentType, tierName?: string): FeeTier => {
+  const tiers = getFeeTiers(exchange, type);
+  return tiers.find(tier => tier.name === tierName) ?? tiers[0] ?? FALLBACK_TIER;
+};
+
+/**
+ * Fee in quote currency for one fill
+ *
+ * @param tier Fee tier
+ * @param liquidity Whether the fill added (maker) or removed (taker) liquidity
+ * @param notional Quote currency value of the fill, from `getNotional`
+ * @param contracts Contracts filled, for per-contract schedules. Coin-settled options are
+ * quoted in their underlying, so a contract is one unit of the quote currency.
+ */
+export const calculateFee = (tier: FeeTier, liquidity: Liquidity, notional: number, contracts = 0): number => {
+  const rate = tier[liquidity];
+
+  if (tier.perContract) {
+    const fee = rate * contracts;
+    return tier.capRate === undefined ? fee : Math.min(fee, tier.capRate * notional);
+  }
+
+  return rate * notional;
+};
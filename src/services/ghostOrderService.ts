@@ -0,0 +1,149 @@
+import { GhostFill, GhostOrder, OrderBook, OrderLevel, OrderSimulation, Trade } from '@/types/orderbook';
+
+let nextGhostId = 1;
+
+// Resting quantity of a ghost order's own side at exactly its price
+const getLevelQuantity = (order: GhostOrder, orderBook: OrderBook): number => {
+  const levels = order.form.side === 'Buy' ? orderBook.bids : orderBook.asks;
+  return levels.find(level => level.price === order.form.price)?.quantity ?? 0;
+};
+
+// Opposite-side quantity at or through a ghost order's price, which would have matched it
+const getCrossingQuantity = (order: GhostOrder, orderBook: OrderBook): number => {
+  const price = order.form.price ?? 0;
+  const crosses = order.form.side === 'Buy'
+    ? (level: OrderLevel) => level.price <= price
+    : (level: OrderLevel) => level.price >= price;
+  const levels = order.form.side === 'Buy' ? orderBook.asks : orderBook.bids;
+
+  return levels.filter(crosses).reduce((sum, level) => sum + level.quantity, 0);
+};
+
+const addFill = (order: GhostOrder, fill: GhostFill): GhostOrder => {
+  const filledQuantity = order.filledQuantity + fill.quantity;
+  const previousNotional = (order.averagePrice ?? 0) * order.filledQuantity;
+  const isFilled = filledQuantity >= order.form.quantity;
+
+  return {
+    ...order,
+    status: isFilled ? 'filled' : 'partially-filled',
+    filledQuantity,
+    averagePrice: (previousNotional + fill.price * fill.quantity) / filledQuantity,
+    fills: [...order.fills, fill],
+    filledAt: isFilled ? fill.timestamp : order.filledAt,
+    timeToFill: fill.timestamp - order.placedAt
+  };
+};
+
+export const isGhostOrderLive = (order: GhostOrder): boolean => {
+  return order.status === 'working' || order.status === 'partially-filled';
+};
+
+/**
+ * Turns a limit order simulation into a live ghost order. The marketable part is
+ * recorded as taker fills; the remainder joins the back of the queue at its price.
+ *
+ * @param simulation Limit order simulation, at arrival or at delayed execution
+ * @param orderBook Book of the order's venue at placement, for the queue estimate
+ */
+export const placeGhostOrder = (simulation: OrderSimulation, orderBook: OrderBook): GhostOrder => {
+  const placedAt = Date.now();
+  let order: GhostOrder = {
+    id: `ghost-${nextGhostId++}`,
+    form: simulation.form,
+    placedAt,
+    status: 'working',
+    initialQueueAhead: 0,
+    queueAhead: 0,
+    levelQuantity: 0,
+    crossedQuantity: 0,
+    filledQuantity: 0,
+    averagePrice: null,
+    fills: []
+  };
+
+  simulation.fills.forEach(fill => {
+    order = addFill(order, { timestamp: placedAt, price: fill.price, quantity: fill.quantity, reason: 'taker' });
+  });
+
+  const levelQuantity = getLevelQuantity(order, orderBook);
+  return {
+    ...order,
+    initialQueueAhead: levelQuantity,
+    queueAhead: levelQuantity,
+    levelQuantity,
+    // The liquidity it took on placement must not fill it a second time
+    crossedQuantity: getCrossingQuantity(order, orderBook)
+  };
+};
+
+/**
+ * Advances a ghost order with new prints. Prints at its price consume the queue
+ * ahead first; prints through its price would have matched it straight away.
+ * Prints count once they arrive after placement, by the local clock the order was
+ * placed with, so exchange clock skew cannot include or drop them; history replayed
+ * on subscription never counts.
+ */
+export const applyTrades = (order: GhostOrder, trades: Trade[]): GhostOrder => {
+  if (!isGhostOrderLive(order)) return order;
+
+  const price = order.form.price ?? 0;
+  const isBuy = order.form.side === 'Buy';
+
+  return trades.reduce((current, trade) => {
+    const remaining = current.form.quantity - current.filledQuantity;
+    // Only sellers hit resting bids and only buyers lift resting asks
+    const arrivedAt = trade.receivedAt ?? trade.timestamp;
+    if (remaining <= 0 || trade.replayed || arrivedAt < current.placedAt || trade.side === current.form.side) return current;
+
+    const tradedThrough = isBuy ? trade.price < price : trade.price > price;
+    if (!tradedThrough && trade.price !== price) return current;
+
+    const queueConsumed = tradedThrough ? current.queueAhead : Math.min(current.queueAhead, trade.size);
+    const available = tradedThrough ? trade.size : trade.size - queueConsumed;
+    const advanced = { ...current, queueAhead: current.queueAhead - queueConsumed };
+    if (available <= 0) return advanced;
+
+    return addFill(advanced, {
+      timestamp: trade.timestamp,
+      price,
+      quantity: Math.min(remaining, available),
+      reason: 'trade'
+    });
+  }, order);
+};
+
+/**
+ * Advances a ghost order with a new book. A shrinking level moves it up the queue,
+ * since what is left ahead can never exceed what rests at its price, and new
+ * opposite-side liquidity at or through its price fills it. Only liquidity beyond
+ * the most ever seen crossing counts, so a level flickering in and out does not
+ * fill the order again.
+ */
+export const applyOrderBook = (order: GhostOrder, orderBook: OrderBook, timestamp = Date.now()): GhostOrder => {
+  if (!isGhostOrderLive(order) || !orderBook.bids.length || !orderBook.asks.length) return order;
+
+  const levelQuantity = getLevelQuantity(order, orderBook);
+  const crossingQuantity = getCrossingQuantity(order, orderBook);
+  const updated = {
+    ...order,
+    queueAhead: Math.min(order.queueAhead, levelQuantity),
+    levelQuantity,
+    crossedQuantity: Math.max(order.crossedQuantity, crossingQuantity)
+  };
+
+  const newlyCrossed = crossingQuantity - order.crossedQuantity;
+  const remaining = order.form.quantity - order.filledQuantity;
+  if (newlyCrossed <= 0 || remaining <= 0) return updated;
+
+  return addFill({ ...updated, queueAhead: 0 }, {
+    timestamp,
+    price: order.form.price ?? 0,
+    quantity: Math.min(remaining, newlyCrossed),
+    reason: 'cross'
+  });
+};
+
+export const cancelGhostOrder = (order: GhostOrder): GhostOrder => {
+  return isGhostOrderLive(order) ? { ...order, status: 'cancelled' } : order;
+};
@@ -0,0 +1,103 @@
+import { MarketImpact, MarketStats, OrderBook, Trade } from '@/types/orderbook';
+import { getNotional } from '@/services/instrumentService';
+
+export interface MidSample {
+  timestamp: number;
+  price: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Scale of the square-root law, I = Y * sigma * sqrt(Q / V); empirical estimates sit close to 1
+const IMPACT_COEFFICIENT = 1;
+// Share of the peak impact that remains once the order is done (about 2/3 in metaorder studies)
+const PERMANENT_IMPACT_SHARE = 2 / 3;
+
+// Statistics measured over less than this are too noisy to calibrate the model
+export const MIN_VOLATILITY_SAMPLES = 30;
+export const MIN_STATS_WINDOW = 60 * 1000;
+
+export const getMidPrice = (orderBook: OrderBook): number | null => {
+  const bestBid = orderBook.bids[0]?.price;
+  const bestAsk = orderBook.asks[0]?.price;
+  return bestBid && bestAsk ? (bestBid + bestAsk) / 2 : null;
+};
+
+/**
+ * Daily realized volatility of a mid-price series, from the standard deviation of
+ * its log returns scaled by the average sampling interval
+ *
+ * @param history Mid samples, oldest first
+ * @returns Volatility as a fraction, or null with fewer than two samples
+ */
+export const calculateRealizedVolatility = (history: MidSample[]): number | null => {
+  if (history.length < 2) return null;
+
+  const returns = history.slice(1).map((sample, index) => Math.log(sample.price / history[index].price));
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / returns.length;
+  const interval = (history[history.length - 1].timestamp - history[0].timestamp) / returns.length;
+
+  return interval > 0 ? Math.sqrt(variance * (DAY_MS / interval)) : null;
+};
+
+/**
+ * Calibrates the impact model from the observed mids and prints
+ *
+ * @param history Mid samples, oldest first
+ * @param trades Prints over the same window
+ * @param windowMs Time the trades were collected over
+ * @returns Null until the window is long enough and has both returns and volume
+ */
+export const calculateMarketStats = (history: MidSample[], trades: Trade[], windowMs: number): MarketStats | null => {
+  if (history.length <= MIN_VOLATILITY_SAMPLES || windowMs < MIN_STATS_WINDOW) return null;
+
+  const volatility = calculateRealizedVolatility(history);
+  const volume = trades.reduce((sum, trade) => sum + trade.size, 0);
+  if (volatility === null || !volume) return null;
+
+  return {
+    midPrice: history[history.length - 1].price,
+    volatility,
+    dailyVolume: volume * (DAY_MS / windowMs),
+    samples: history.length - 1,
+    windowMs
+  };
+};
+
+/**
+ * Why `calculateMarketStats` has no calibration yet, shown in place of the impact
+ */
+export const describeMissingStats = (history: MidSample[], trades: Trade[], windowMs: number): string => {
+  if (history.length <= MIN_VOLATILITY_SAMPLES || windowMs < MIN_STATS_WINDOW) {
+    return 'Calibrating: the impact model needs a minute of mid prices and trades';
+  }
+  return trades.length ? 'The mid price has not moved enough to measure volatility' : 'No trades printed yet to measure volume';
+};
+
+/**
+ * Pre-trade square-root impact estimate: peak impact Y * sigma * sqrt(Q / V), split
+ * into the part that decays after execution and the part that stays in the price
+ *
+ * @param quantity Order quantity, in the units trades are reported in
+ * @param stats Calibration from the live feed
+ * @param inverse Whether the quantity is an inverse contract amount in quote currency
+ */
+export const estimateMarketImpact = (quantity: number, stats: MarketStats, inverse = false): MarketImpact => {
+  const participation = quantity / stats.dailyVolume;
+  const totalBps = IMPACT_COEFFICIENT * stats.volatility * Math.sqrt(participation) * 10000;
+  const permanentBps = totalBps * PERMANENT_IMPACT_SHARE;
+  const temporaryBps = totalBps - permanentBps;
+  const notional = getNotional(quantity, stats.midPrice, inverse);
+
+  return {
+    temporaryBps,
+    permanentBps,
+    totalBps,
+    temporaryCost: notional * temporaryBps / 10000,
+    permanentCost: notional * permanentBps / 10000,
+    totalCost: notional * totalBps / 10000,
+    participation,
+    volatility: stats.volatility
+  };
+};
@@ -0,0 +1,264 @@
+import { CanonicalInstrument, Exchange, Instrument, OrderForm } from '@/types/orderbook';
+import { getExchangeAdapter, getExchangeAdapters } from '@/services/exchanges';
+import { hasLimitPrice, hasTriggerPrice } from '@/services/conditionalOrderService';
+
+export interface InstrumentValidationError {
+  title: string;
+  description: string;
+}
+
+export interface MarketListing {
+  exchange: Exchange;
+  symbol: string;
+}
+
+// One canonical market and the venue symbols it trades under
+export interface CanonicalMarket {
+  id: string;
+  instrument: CanonicalInstrument;
+  label: string;
+  listings: MarketListing[];
+}
+
+// Relative tolerance for floating point step checks (e.g. 0.3 / 0.1)
+const STEP_EPSILON = 1e-9;
+
+/**
+ * Loads the instrument list of an exchange from its REST endpoint.
+ * Venues without instrument discovery resolve to an empty list.
+ */
+export const fetchInstruments = async (exchange: Exchange): Promise<Instrument[]> => {
+  const adapter = getExchangeAdapter(exchange);
+  if (!adapter?.fetchInstruments) return [];
+
+  return adapter.fetchInstruments();
+};
+
+/**
+ * Stable identifier of a canonical instrument, e.g. BTC/USDT:spot or
+ * BTC/USD:perpetual:BTC for an inverse perpetual
+ */
+export const getCanonicalId = ({ base, quote, type, settlement, expiry, strike, optionType }: CanonicalInstrument): string => {
+  return [`${base}/${quote}`, type, type === 'spot' ? undefined : settlement, expiry, strike, optionType]
+    .filter(part => part !== undefined)
+    .join(':');
+};
+
+// Inverse contracts are settled in the base currency and sized in the quote currency
+// (Deribit BTC-PERPETUAL amounts are USD)
+export const isInverse = ({ base, quote, settlement }: CanonicalInstrument): boolean => {
+  return settlement !== undefined && settlement === base && settlement !== quote;
+};
+
+/**
+ * Venue-independent market name, e.g. "BTC/USDT Spot" or "BTC/USD Perpetual (inverse)"
+ */
+export const formatCanonicalInstrument = ({ base, quote, type, settlement, expiry, strike, optionType }: CanonicalInstrument): string => {
+  const pair = `${base}/${quote}`;
+  const inverse = isInverse({ base, quote, type, settlement }) ? ' (inverse)' : '';
+  const expiryDate = expiry ? new Date(expiry).toISOString().slice(0, 10) : '';
+
+  switch (type) {
+    case 'spot':
+      return `${pair} Spot`;
+    case 'perpetual':
+      return `${pair} Perpetual${inverse}`;
+    case 'future':
+      return `${pair} ${expiryDate} Future${inverse}`;
+    case 'option':
+      return `${base} ${expiryDate} ${strike ?? ''} ${optionType === 'put' ? 'Put' : 'Call'} (${quote} premium)`;
+    default:
+      return `${pair} ${type}`;
+  }
+};
+
+export const toCanonical = (exchange: Exchange, symbol: string): CanonicalInstrument | null => {
+  return getExchangeAdapter(exchange)?.toCanonical(symbol) ?? null;
+};
+
+export const isInverseMarket = (exchange: Exchange, symbol: string): boolean => {
+  const canonical = toCanonical(exchange, symbol);
+  return canonical ? isInverse(canonical) : false;
+};
+
+/**
+ * Quote currency value of a quantity at a price
+ *
+ * @param inverse Whether the quantity is an inverse contract amount, already in quote currency
+ */
+export const getNotional = (quantity: number, price: number, inverse = false): number => {
+  return inverse ? quantity : quantity * price;
+};
+
+/**
+ * Weight of a fill in an average price: quantity times price, or quantity over price
+ * for inverse contracts, whose USD amounts average harmonically
+ */
+export const getPriceWeight = (quantity: number, price: number, inverse = false): number => {
+  if (!inverse) return quantity * price;
+  return price ? quantity / price : 0;
+};
+
+/**
+ * Average price of a quantity from the sum of its fills' `getPriceWeight`
+ */
+export const getAveragePrice = (quantity: number, weight: number, inverse = false): number => {
+  if (!quantity || !weight) return 0;
+  return inverse ? quantity / weight : weight / quantity;
+};
+
+/**
+ * Translates a venue symbol into the same market on another venue
+ *
+ * @param fromExchange Venue the symbol belongs to
+ * @param symbol Venue symbol
+ * @param toExchange Target venue
+ * @param instruments Known instruments of the target venue, in addition to its featured symbols
+ * @returns The target venue's symbol, or null when that venue does not list the market
+ */
+export const mapSymbol = (
+  fromExchange: Exchange,
+  symbol: string,
+  toExchange: Exchange,
+  instruments: Instrument[] = []
+): string | null => {
+  if (fromExchange === toExchange) return symbol;
+
+  const canonical = toCanonical(fromExchange, symbol);
+  return canonical ? resolveSymbol(toExchange, canonical, instruments) : null;
+};
+
+/**
+ * Venue symbol of a canonical instrument, if the venue lists it among its featured
+ * symbols or its discovered instruments
+ */
+export const resolveSymbol = (
+  exchange: Exchange,
+  canonical: CanonicalInstrument,
+  instruments: Instrument[] = []
+): string | null => {
+  const adapter = getExchangeAdapter(exchange);
+  const symbol = adapter?.fromCanonical(canonical);
+  if (!adapter || !symbol) return null;
+
+  const isListed = adapter.getSymbols().includes(symbol)
+    || instruments.some(instrument => instrument.symbol === symbol);
+  return isListed ? symbol : null;
+};
+
+/**
+ * Every venue listing a canonical instrument, in registry order
+ *
+ * @param canonical Market to look up
+ * @param getInstruments Known instruments per venue, in addition to the featured symbols
+ */
+export const getMarketListings = (
+  canonical: CanonicalInstrument,
+  getInstruments: (exchange: Exchange) => Instrument[] | undefined = () => undefined
+): MarketListing[] => {
+  return getExchangeAdapters()
+    .map(adapter => ({ exchange: adapter.id, symbol: resolveSymbol(adapter.id, canonical, getInstruments(adapter.id)) }))
+    .filter((listing): listing is MarketListing => listing.symbol !== null);
+};
+
+/**
+ * Every featured market across the registered venues, with the venues that list it
+ */
+export const getFeaturedMarkets = (): CanonicalMarket[] => {
+  const markets = new Map<string, CanonicalMarket>();
+
+  getExchangeAdapters().forEach(adapter => {
+    adapter.getSymbols().forEach(symbol => {
+      const instrument = adapter.toCanonical(symbol);
+      if (!instrument) return;
+
+      const id = getCanonicalId(instrument);
+      let market = markets.get(id);
+      if (!market) {
+        market = { id, instrument, label: formatCanonicalInstrument(instrument), listings: [] };
+        markets.set(id, market);
+      }
+      market.listings.push({ exchange: adapter.id, symbol });
+    });
+  });
+
+  return [...markets.values()];
+};
+
+/**
+ * Orders the selectable symbols: the adapter's featured symbols first, followed by
+ * the remaining discovered instruments alphabetically
+ */
+export const getSelectableSymbols = (exchange: Exchange, instruments: Instrument[]): string[] => {
+  const featured = getExchangeAdapter(exchange)?.getSymbols() ?? [];
+  const discovered = new Set(instruments.map(instrument => instrument.symbol));
+
+  // Featured symbols stay selectable until the instrument list has loaded
+  const available = instruments.length ? featured.filter(symbol => discovered.has(symbol)) : featured;
+  const others = [...discovered]
+    .filter(symbol => !featured.includes(symbol))
+    .sort();
+
+  return [...available, ...others];
+};
+
+const isMultipleOf = (value: number, step: number): boolean => {
+  if (!step) return true;
+  const ratio = value / step;
+  return Math.abs(ratio - Math.round(ratio)) < STEP_EPSILON * Math.max(1, Math.abs(ratio));
+};
+
+/**
+ * Checks an order against the instrument's trading rules
+ *
+ * @param form Order to validate
+ * @param instrument Instrument metadata, if known
+ * @param referencePrice Price used for the notional check of market orders
+ * @returns The first rule that is violated, or null
+ */
+export const validateOrderForInstrument = (
+  form: OrderForm,
+  instrument: Instrument | undefined,
+  referencePrice?: number
+): InstrumentValidationError | null => {
+  if (!instrument) return null;
+
+  if (instrument.minSize && form.quantity < instrument.minSize) {
+    return {
+      title: "Quantity too small",
+      description: `Minimum order size for ${instrument.symbol} is ${instrument.minSize}`
+    };
+  }
+
+  if (!isMultipleOf(form.quantity, instrument.lotSize)) {
+    return {
+      title: "Invalid quantity",
+      description: `Quantity must be a multiple of the lot size ${instrument.lotSize}`
+    };
+  }
+
+  if (hasLimitPrice(form.type) && form.price && !isMultipleOf(form.price, instrument.tickSize)) {
+    return {
+      title: "Invalid price",
+      description: `Price must be a multiple of the tick size ${instrument.tickSize}`
+    };
+  }
+
+  const triggerPrice = hasTriggerPrice(form.type) ? form.triggerPrice : null;
+  if (triggerPrice && !isMultipleOf(triggerPrice, instrument.tickSize)) {
+    return {
+      title: "Invalid trigger price",
+      description: `Trigger price must be a multiple of the tick size ${instrument.tickSize}`
+    };
+  }
+
+  const price = hasLimitPrice(form.type) && form.price ? form.price : triggerPrice || referencePrice;
+  if (instrument.minNotional && price && form.quantity * price < instrument.minNotional) {
+    return {
+      title: "Order value too small",
+      description: `Minimum order value for ${instrument.symbol} is ${instrument.minNotional} ${instrument.quote}`
+    };
+  }
+
+  return null;
+};
@@ -1,16 +1,41 @@
-import { OrderBook, OrderLevel, OrderForm, OrderSimulation } from '@/types/orderbook';
+import {
+  DelayOption,
+  Exchange,
+  ExecutionDrift,
+  FillLevel,
+  InstrumentType,
+  MarketStats,
+  OrderBook,
+  OrderCosts,
+  OrderLevel,
+  OrderForm,
+  OrderSimulation
+} from '@/types/orderbook';
+import { FeeTier } from '@/services/exchanges';
+import { calculateFee, getFeeTier, getInstrumentType } from '@/services/feeService';
+import { estimateMarketImpact } from '@/services/impactService';
+import { getAveragePrice, getNotional, getPriceWeight, isInverseMarket } from '@/services/instrumentService';
 
+// Rows shown by the order book ladder unless configured otherwise
+export const DEFAULT_DISPLAY_DEPTH = 15;
+
+// Levels per side drawn by the depth chart and measured by the imbalance panel,
+// so the area near the touch stays readable on full-depth books
+export const ANALYTICS_DEPTH = 50;
+
+/**
+ * Sorts the book best first and adds cumulative quantities. The full depth is
+ * kept for simulation and analytics; see `trimOrderBook` for display.
+ */
 export const processOrderBookData = (rawOrderBook: OrderBook): OrderBook => {
   // Sort bids in descending order and asks in ascending order
   const bids = [...rawOrderBook.bids]
-    .sort((a, b) => b.price - a.price)
-    .slice(0, 15);
+    .sort((a, b) => b.price - a.price);
   
   const asks = [...rawOrderBook.asks]
-    .sort((a, b) => a.price - b.price)
-    .slice(0, 15);
+    .sort((a, b) => a.price - b.price);
   
-  // Calculate cumulative quantities and percentages
+  // Calculate cumulative quantities
   let bidTotal = 0;
   let askTotal = 0;
   
@@ -24,16 +49,6 @@ export const processOrderBookData = (rawOrderBook: OrderBook): OrderBook => {
     ask.total = askTotal;
   });
   
-  const maxTotal = Math.max(bidTotal, askTotal);
-  
-  bids.forEach(bid => {
-    bid.percentage = bid.total ? (bid.total / maxTotal) * 100 : 0;
-  });
-  
-  asks.forEach(ask => {
-    ask.percentage = ask.total ? (ask.total / maxTotal) * 100 : 0;
-  });
-  
   return {
     bids,
     asks,
@@ -41,51 +56,210 @@ export const processOrderBookData = (rawOrderBook: OrderBook): OrderBook => {
   };
 };
 
-export const simulateOrder = (form: OrderForm, orderBook: OrderBook): OrderSimulation => {
+/**
+ * Top rows of a processed book for display, with depth bar percentages scaled to
+ * the visible rows
+ *
+ * @param orderBook Processed full-depth book
+ * @param rows Levels kept per side
+ */
+export const trimOrderBook = (orderBook: OrderBook, rows = DEFAULT_DISPLAY_DEPTH): OrderBook => {
+  const bids = orderBook.bids.slice(0, rows);
+  const asks = orderBook.asks.slice(0, rows);
+  const maxTotal = Math.max(bids[bids.length - 1]?.total ?? 0, asks[asks.length - 1]?.total ?? 0);
+  const withPercentage = (level: OrderLevel) => ({
+    ...level,
+    percentage: level.total && maxTotal ? (level.total / maxTotal) * 100 : 0
+  });
+  
+  return {
+    bids: bids.map(withPercentage),
+    asks: asks.map(withPercentage),
+    timestamp: orderBook.timestamp
+  };
+};
+
+// Splits a fill across the venues quoting a consolidated level, pro rata to their size
+const allocateVenueFill = (level: OrderLevel, fillQuantity: number, venueFills: Record<Exchange, number>) => {
+  if (!level.venues) return undefined;
+
+  const allocation: Record<Exchange, number> = {};
+  Object.entries(level.venues).forEach(([exchange, quantity]) => {
+    allocation[exchange] = fillQuantity * (quantity / level.quantity);
+    venueFills[exchange] = (venueFills[exchange] ?? 0) + allocation[exchange];
+  });
+  return allocation;
+};
+
+// Taker fee of one fill; consolidated levels are charged at each contributing venue's own tier
+const takerFeeForLevel = (
+  level: OrderLevel,
+  fillQuantity: number,
+  notional: number,
+  form: OrderForm,
+  tier: FeeTier,
+  type: InstrumentType
+): number => {
+  if (!level.venues) return calculateFee(tier, 'taker', notional, fillQuantity);
+
+  return Object.entries(level.venues).reduce((sum, [exchange, quantity]) => {
+    const venueTier = exchange === form.exchange ? tier : getFeeTier(exchange, type);
+    const share = quantity / level.quantity;
+    return sum + calculateFee(venueTier, 'taker', notional * share, fillQuantity * share);
+  }, 0);
+};
+
+const buildCosts = (
+  form: OrderForm,
+  tier: FeeTier,
+  taker: { quantity: number, weight: number, notional: number, fee: number },
+  maker: { quantity: number, price: number },
+  inverse: boolean
+): OrderCosts => {
+  const makerNotional = getNotional(maker.quantity, maker.price, inverse);
+  const makerFee = calculateFee(tier, 'maker', makerNotional, maker.quantity);
+  const grossNotional = taker.notional + makerNotional;
+  const totalFees = taker.fee + makerFee;
+  const netCost = form.side === 'Buy' ? grossNotional + totalFees : grossNotional - totalFees;
+  const quantity = taker.quantity + maker.quantity;
+  // Average execution price, moved by the fees' share of the notional
+  const averagePrice = getAveragePrice(quantity, taker.weight + getPriceWeight(maker.quantity, maker.price, inverse), inverse);
+
+  return {
+    feeTier: tier.name,
+    takerQuantity: taker.quantity,
+    makerQuantity: maker.quantity,
+    grossNotional,
+    takerFee: taker.fee,
+    makerFee,
+    totalFees,
+    netCost,
+    effectivePrice: grossNotional ? averagePrice * (netCost / grossNotional) : 0
+  };
+};
+
+/**
+ * Consumes levels best first until the order is filled, recording every level
+ * it walks through. `totalWeight` sums the fills' `getPriceWeight` for the VWAP
+ * (harmonic for inverse contracts); `totalNotional` is the quote currency value.
+ */
+const walkBook = (
+  levels: OrderLevel[],
+  form: OrderForm,
+  feeTier: FeeTier,
+  instrumentType: InstrumentType,
+  inverse: boolean
+) => {
+  const fills: FillLevel[] = [];
+  const venueFills: Record<Exchange, number> = {};
+  let remainingQuantity = form.quantity;
+  let totalWeight = 0;
+  let totalNotional = 0;
+  let takerFee = 0;
+
+  for (const level of levels) {
+    if (remainingQuantity <= 0) break;
+
+    const fillQuantity = Math.min(remainingQuantity, level.quantity);
+    const notional = getNotional(fillQuantity, level.price, inverse);
+    const venues = allocateVenueFill(level, fillQuantity, venueFills);
+    takerFee += takerFeeForLevel(level, fillQuantity, notional, form, feeTier, instrumentType);
+    totalWeight += getPriceWeight(fillQuantity, level.price, inverse);
+    totalNotional += notional;
+    remainingQuantity -= fillQuantity;
+
+    const cumulativeQuantity = form.quantity - remainingQuantity;
+    fills.push({
+      price: level.price,
+      quantity: fillQuantity,
+      notional,
+      cumulativeQuantity,
+      vwap: getAveragePrice(cumulativeQuantity, totalWeight, inverse),
+      venues
+    });
+  }
+
+  return {
+    fills,
+    venueFills: Object.keys(venueFills).length ? venueFills : undefined,
+    remainingQuantity: Math.max(0, remainingQuantity),
+    totalWeight,
+    totalNotional,
+    takerFee,
+    averagePrice: fills.length ? getAveragePrice(form.quantity - remainingQuantity, totalWeight, inverse) : null,
+    worstPrice: fills.length ? fills[fills.length - 1].price : null
+  };
+};
+
+// An order that has not executed, e.g. without a book or before its trigger
+export const createInactiveSimulation = (form: OrderForm): OrderSimulation => ({
+  form,
+  fillPercentage: 0,
+  marketImpact: null,
+  slippage: 0,
+  active: false,
+  fills: [],
+  averagePrice: null,
+  worstPrice: null,
+  remainingQuantity: form.quantity
+});
+
+/**
+ * Simulates an order against a full-depth book
+ *
+ * @param form Order to simulate
+ * @param orderBook Processed book the order executes against
+ * @param marketStats Live calibration of the impact model; impact is omitted without it
+ * @param impactUnavailable Why there is no calibration, reported in place of the impact
+ */
+export const simulateOrder = (
+  form: OrderForm,
+  orderBook: OrderBook,
+  marketStats?: MarketStats | null,
+  impactUnavailable?: string | null
+): OrderSimulation => {
   if (!orderBook || !orderBook.bids.length || !orderBook.asks.length) {
-    return {
-      form,
-      fillPercentage: 0,
-      marketImpact: 0,
-      slippage: 0,
-      active: false
-    };
+    return createInactiveSimulation(form);
   }
   
+  const instrumentType = getInstrumentType(form.exchange, form.symbol);
+  const feeTier = getFeeTier(form.exchange, instrumentType, form.feeTier);
+  const inverse = isInverseMarket(form.exchange, form.symbol);
+  // Square-root impact of the whole order, independent of the book walk below
+  const marketImpact = marketStats ? estimateMarketImpact(form.quantity, marketStats, inverse) : null;
+  
   // Market order simulation
   if (form.type === 'Market') {
     const levels = form.side === 'Buy' ? orderBook.asks : orderBook.bids;
-    
-    let remainingQuantity = form.quantity;
-    let totalValue = 0;
-    let filledLevels = 0;
-    
-    for (const level of levels) {
-      if (remainingQuantity <= 0) break;
-      
-      const fillQuantity = Math.min(remainingQuantity, level.quantity);
-      totalValue += fillQuantity * level.price;
-      remainingQuantity -= fillQuantity;
-      filledLevels++;
-    }
+    const walk = walkBook(levels, form, feeTier, instrumentType, inverse);
+    const { remainingQuantity, totalWeight, totalNotional, takerFee } = walk;
     
     const fillPercentage = ((form.quantity - remainingQuantity) / form.quantity) * 100;
-    const averagePrice = totalValue / (form.quantity - remainingQuantity);
+    const averagePrice = walk.averagePrice ?? 0;
     const bestPrice = form.side === 'Buy' ? orderBook.asks[0].price : orderBook.bids[0].price;
     const slippage = form.side === 'Buy' 
       ? ((averagePrice - bestPrice) / bestPrice) * 100
       : ((bestPrice - averagePrice) / bestPrice) * 100;
     
-    // Market impact is estimated by the number of levels affected
-    const marketImpact = (filledLevels / levels.length) * 100;
-    
     return {
       form,
       fillPercentage,
       marketImpact,
+      impactUnavailable: marketImpact ? undefined : impactUnavailable ?? undefined,
       slippage: Math.max(0, slippage),
-      timeToFill: 'Immediate',
-      active: true
+      active: true,
+      fills: walk.fills,
+      averagePrice: walk.averagePrice,
+      worstPrice: walk.worstPrice,
+      remainingQuantity,
+      venueFills: walk.venueFills,
+      costs: buildCosts(
+        form,
+        feeTier,
+        { quantity: form.quantity - remainingQuantity, weight: totalWeight, notional: totalNotional, fee: takerFee },
+        { quantity: 0, price: 0 },
+        inverse
+      )
     };
   } 
   // Limit order simulation
@@ -99,47 +273,14 @@ export const simulateOrder = (form: OrderForm, orderBook: OrderBook): OrderSimul
       ? levels.filter(level => level.price <= orderPrice)
       : levels.filter(level => level.price >= orderPrice);
     
-    let remainingQuantity = form.quantity;
-    let totalValue = 0;
-    
-    for (const level of fillableLevels) {
-      if (remainingQuantity <= 0) break;
-      
-      const fillQuantity = Math.min(remainingQuantity, level.quantity);
-      totalValue += fillQuantity * level.price;
-      remainingQuantity -= fillQuantity;
-    }
+    // The marketable part of a limit order executes immediately as taker
+    const walk = walkBook(fillableLevels, form, feeTier, instrumentType, inverse);
+    const { remainingQuantity, totalWeight, totalNotional, takerFee } = walk;
     
     const fillPercentage = ((form.quantity - remainingQuantity) / form.quantity) * 100;
     
-    let marketImpact = 0;
-    if (fillPercentage < 100) {
-      // Estimate where the order would sit in the orderbook
-      const relevantLevels = form.side === 'Buy' ? orderBook.bids : orderBook.asks;
-      const depth = relevantLevels.length;
-      
-      // Find position in orderbook
-      let position = 0;
-      for (let i = 0; i < relevantLevels.length; i++) {
-        const level = relevantLevels[i];
-        if (form.side === 'Buy' && orderPrice > level.price) {
-          position = i;
-          break;
-        } else if (form.side === 'Sell' && orderPrice < level.price) {
-          position = i;
-          break;
-        }
-      }
-      
-      // Market impact for limit orders is estimated by how deep in the book the order would sit
-      marketImpact = (1 - (position / depth)) * 50; // Scale to max 50% for limit orders
-    } else {
-      // For fully filled limit orders, impact is similar to market orders but typically less
-      marketImpact = fillableLevels.length / levels.length * 75; // 75% of market order impact
-    }
-    
     // Calculate slippage for filled portion
-    const averageFilledPrice = totalValue / (form.quantity - remainingQuantity || 1);
+    const averageFilledPrice = getAveragePrice(form.quantity - remainingQuantity, totalWeight, inverse);
     const slippage = form.side === 'Buy'
       ? ((averageFilledPrice - orderPrice) / orderPrice) * 100
       : ((orderPrice - averageFilledPrice) / orderPrice) * 100;
@@ -147,43 +288,68 @@ export const simulateOrder = (form: OrderForm, orderBook: OrderBook): OrderSimul
     return {
       form,
       fillPercentage,
-      marketImpact: Math.min(100, marketImpact),
+      marketImpact,
+      impactUnavailable: marketImpact ? undefined : impactUnavailable ?? undefined,
       slippage: Math.max(0, slippage),
-      timeToFill: estimateTimeToFill(form.delay, fillPercentage),
-      active: true
+      active: true,
+      fills: walk.fills,
+      averagePrice: walk.averagePrice,
+      worstPrice: walk.worstPrice,
+      remainingQuantity,
+      venueFills: walk.venueFills,
+      costs: buildCosts(
+        form,
+        feeTier,
+        { quantity: form.quantity - remainingQuantity, weight: totalWeight, notional: totalNotional, fee: takerFee },
+        // The remainder rests on the book and is charged the maker rate once filled
+        { quantity: Math.max(0, remainingQuantity), price: orderPrice },
+        inverse
+      )
     };
   }
 };
 
-const estimateTimeToFill = (delay: string, fillPercentage: number): string => {
-  if (delay === 'immediate') {
-    return fillPercentage >= 100 ? 'Immediate' : 'Partial fill';
-  }
-  
-  const delayMs = delay === '5s' ? 5000 : delay === '10s' ? 10000 : 30000;
-  
-  if (fillPercentage >= 100) {
-    return `~${delayMs / 1000}s`;
-  } else if (fillPercentage > 75) {
-    return `>${delayMs / 1000}s`;
-  } else if (fillPercentage > 50) {
-    return `>>${delayMs / 1000}s`;
-  } else if (fillPercentage > 0) {
-    return `>>>${delayMs / 1000}s`;
-  } else {
-    return 'Unlikely to fill';
-  }
+// Price a simulation is drawn at: its limit, or the deepest level a market order reaches
+export const getSimulationPrice = (simulation: OrderSimulation): number | null => {
+  return simulation.form.type === 'Limit' ? simulation.form.price : simulation.worstPrice;
 };
 
-export const getAvailableSymbols = (exchange: string): string[] => {
-  switch (exchange) {
-    case 'OKX':
-      return ['BTC-USDT', 'ETH-USDT', 'SOL-USDT', 'XRP-USDT', 'DOGE-USDT'];
-    case 'Bybit':
-      return ['BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'XRPUSDT', 'DOGEUSDT'];
-    case 'Deribit':
-      return ['BTC-PERPETUAL', 'ETH-PERPETUAL'];
+export const getDelayMs = (delay: DelayOption): number => {
+  switch (delay) {
+    case '5s':
+      return 5000;
+    case '10s':
+      return 10000;
+    case '30s':
+      return 30000;
     default:
-      return [];
+      return 0;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Compares a delayed order's execution with its arrival evaluation
+ *
+ * @param arrival Simulation against the book at submit time
+ * @param execution Simulation of the same order against the book at T+delay
+ */
+export const compareExecutions = (arrival: OrderSimulation, execution: OrderSimulation): ExecutionDrift => {
+  const direction = arrival.form.side === 'Buy' ? 1 : -1;
+  const vwapChange = arrival.averagePrice !== null && execution.averagePrice !== null
+    ? (execution.averagePrice - arrival.averagePrice) * direction
+    : null;
+  const executedQuantity = arrival.form.quantity - execution.remainingQuantity;
+
+  return {
+    fillChange: execution.fillPercentage - arrival.fillPercentage,
+    vwapChange,
+    vwapChangeBps: vwapChange !== null && arrival.averagePrice ? (vwapChange / arrival.averagePrice) * 10000 : null,
+    slippageChange: execution.slippage - arrival.slippage,
+    // Inverse amounts are quote currency, so the cost is the relative price change on them
+    hesitationCost: vwapChange !== null && arrival.averagePrice
+      ? isInverseMarket(arrival.form.exchange, arrival.form.symbol)
+        ? executedQuantity * (vwapChange / arrival.averagePrice)
+        : vwapChange * executedQuantity
+      : 0
+  };
+};
@@ -0,0 +1,90 @@
+import { PaperAccount } from '@/types/orderbook';
+
+const DB_NAME = 'orderbook-paper-trading';
+const DB_VERSION = 1;
+const STORE_NAME = 'accounts';
+const ACCOUNT_KEY = 'default';
+
+// Connection shared by every request; cleared when opening fails or the connection closes
+let database: Promise<IDBDatabase> | null = null;
+// Tail of the save chain: saves complete in call order, so a slow older save never overwrites a newer one
+let pendingSaves: Promise<void> = Promise.resolve();
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let another tab upgrade the schema; the next request reopens
+      db.onversionchange = () => {
+        db.close();
+        database = null;
+      };
+      db.onclose = () => {
+        database = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = openDatabase().catch(error => {
+      database = null;
+      throw error;
+    });
+  }
+  return database;
+};
+
+// Runs one request in its own transaction on the shared connection
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await getDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = createRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Reads the persisted paper account
+ *
+ * @returns The account, or null when none was saved or IndexedDB is unavailable
+ */
+export const loadPaperAccount = async (): Promise<PaperAccount | null> => {
+  try {
+    const account = await runRequest<PaperAccount | undefined>('readonly', store => store.get(ACCOUNT_KEY));
+    return account ?? null;
+  } catch (error) {
+    console.error('Error loading paper account:', error);
+    return null;
+  }
+};
+
+/**
+ * Persists the paper account once every earlier save has completed
+ *
+ * @param account Account as it is at the time of the call
+ */
+export const savePaperAccount = (account: PaperAccount): Promise<void> => {
+  pendingSaves = pendingSaves
+    .then(() => runRequest('readwrite', store => store.put(account, ACCOUNT_KEY)))
+    .then(() => undefined, error => {
+      console.error('Error saving paper account:', error);
+    });
+  return pendingSaves;
+};
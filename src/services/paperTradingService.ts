@@ -0,0 +1,295 @@
+import {
+  CanonicalInstrument,
+  Exchange,
+  GhostFill,
+  GhostOrder,
+  OrderSide,
+  OrderSimulation,
+  PaperAccount,
+  PaperFill,
+  PaperPosition
+} from '@/types/orderbook';
+import { getExchangeAdapter, getExchangeAdapters } from '@/services/exchanges';
+import {
+  InstrumentValidationError,
+  getAveragePrice,
+  getNotional,
+  getPriceWeight,
+  isInverse,
+  isInverseMarket,
+  mapSymbol,
+  toCanonical
+} from '@/services/instrumentService';
+import { calculateFee, getFeeTier, getInstrumentType } from '@/services/feeService';
+
+// Starting balances of every venue in a new account
+export const DEFAULT_PAPER_BALANCES: Record<string, number> = {
+  USDT: 100000,
+  USDC: 100000,
+  USD: 100000,
+  BTC: 1,
+  ETH: 10
+};
+
+// Starting balance of any other quote currency a venue's featured markets trade in (e.g. Kraken EUR)
+const DEFAULT_QUOTE_BALANCE = 100000;
+
+// Fills kept in the account history
+const MAX_PAPER_FILLS = 500;
+
+let nextFillId = 1;
+
+export const getPositionKey = (exchange: Exchange, symbol: string) => `${exchange}|${symbol}`;
+
+/**
+ * Starting balances of a venue: the default balances plus every quote currency
+ * of its featured markets
+ */
+export const getSeedBalances = (exchange: Exchange): Record<string, number> => {
+  const adapter = getExchangeAdapter(exchange);
+  const quotes = adapter?.getSymbols().flatMap(symbol => adapter.toCanonical(symbol)?.quote ?? []) ?? [];
+  return { ...Object.fromEntries(quotes.map(quote => [quote, DEFAULT_QUOTE_BALANCE])), ...DEFAULT_PAPER_BALANCES };
+};
+
+export const createPaperAccount = (): PaperAccount => {
+  const now = Date.now();
+  return {
+    balances: Object.fromEntries(getExchangeAdapters().map(adapter => [adapter.id, getSeedBalances(adapter.id)])),
+    positions: [],
+    fills: [],
+    marks: {},
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// Currencies missing from a saved account (e.g. saved before a venue listed them) start at their seed balance
+export const getBalances = (account: PaperAccount, exchange: Exchange): Record<string, number> => {
+  return { ...getSeedBalances(exchange), ...account.balances[exchange] };
+};
+
+const createFill = (
+  exchange: Exchange,
+  symbol: string,
+  side: OrderSide,
+  price: number,
+  quantity: number,
+  fee: number,
+  liquidity: PaperFill['liquidity'],
+  timestamp = Date.now()
+): PaperFill => ({
+  id: `${timestamp}-${nextFillId++}`,
+  exchange,
+  symbol,
+  side,
+  price,
+  quantity,
+  fee,
+  liquidity,
+  timestamp
+});
+
+/**
+ * Fills of an executed simulation: the immediately filled quantity at its average
+ * price. A consolidated book fill is split by venue, each at the average price of
+ * the levels it took from that venue and charged at that venue's taker rate.
+ */
+export const getSimulationFills = (simulation: OrderSimulation): PaperFill[] => {
+  const { form, fills, averagePrice, remainingQuantity, venueFills, costs } = simulation;
+  const filledQuantity = form.quantity - remainingQuantity;
+  if (averagePrice === null || filledQuantity <= 0) return [];
+
+  if (!venueFills) {
+    return [createFill(form.exchange, form.symbol, form.side, averagePrice, filledQuantity, costs?.takerFee ?? 0, 'taker')];
+  }
+
+  // Average price per venue across the consumed levels; every venue lists the same
+  // canonical market, so they are all inverse or all linear
+  const inverse = isInverseMarket(form.exchange, form.symbol);
+  const venueWeights: Record<Exchange, number> = {};
+  fills.forEach(fill => {
+    Object.entries(fill.venues ?? {}).forEach(([exchange, quantity]) => {
+      venueWeights[exchange] = (venueWeights[exchange] ?? 0) + getPriceWeight(quantity, fill.price, inverse);
+    });
+  });
+
+  const type = getInstrumentType(form.exchange, form.symbol);
+  return Object.entries(venueFills).flatMap(([exchange, quantity]) => {
+    const symbol = mapSymbol(form.exchange, form.symbol, exchange);
+    if (!symbol) {
+      console.error(`No ${exchange} symbol for ${form.symbol}, fill not booked`);
+      return [];
+    }
+    const price = getAveragePrice(quantity, venueWeights[exchange] ?? 0, inverse);
+    const tier = getFeeTier(exchange, type, exchange === form.exchange ? form.feeTier : undefined);
+    const fee = calculateFee(tier, 'taker', getNotional(quantity, price, inverse), quantity);
+    return [createFill(exchange, symbol, form.side, price, quantity, fee, 'taker')];
+  });
+};
+
+/**
+ * Paper fill of a resting ghost order fill, charged at the maker rate
+ */
+export const getGhostOrderFill = (order: GhostOrder, fill: GhostFill): PaperFill => {
+  const { exchange, symbol, side, feeTier } = order.form;
+  const tier = getFeeTier(exchange, getInstrumentType(exchange, symbol), feeTier);
+  const fee = calculateFee(
+    tier,
+    'maker',
+    getNotional(fill.quantity, fill.price, isInverseMarket(exchange, symbol)),
+    fill.quantity
+  );
+
+  return createFill(exchange, symbol, side, fill.price, fill.quantity, fee, 'maker', fill.timestamp);
+};
+
+// Currency derivative PnL and fees are booked in: the base for inverse contracts, else the quote
+const getSettlement = (canonical: CanonicalInstrument): string => isInverse(canonical) ? canonical.base : canonical.quote;
+
+export const getSettlementCurrency = (position: PaperPosition): string => position.settlement ?? position.quote;
+
+// Fee of a fill in its settlement currency; inverse fees are USD and convert at the fill price
+const getSettledFee = (fill: PaperFill, inverse: boolean): number => inverse ? fill.fee / fill.price : fill.fee;
+
+/**
+ * Checks that the venue balances can pay for a fill: the notional and fee when
+ * buying spot, the base quantity when selling spot, and the fee in the
+ * settlement currency on derivatives
+ */
+export const validatePaperFill = (account: PaperAccount, fill: PaperFill): InstrumentValidationError | null => {
+  const canonical = toCanonical(fill.exchange, fill.symbol);
+  if (!canonical) {
+    return {
+      title: "Unknown instrument",
+      description: `${fill.symbol} on ${fill.exchange} cannot be paper traded`
+    };
+  }
+
+  const balances = getBalances(account, fill.exchange);
+  const inverse = isInverse(canonical);
+  const currency = canonical.type === 'spot' ? canonical.quote : getSettlement(canonical);
+  const available = balances[currency] ?? 0;
+  const required = canonical.type === 'spot' && fill.side === 'Buy'
+    ? fill.quantity * fill.price + fill.fee
+    : getSettledFee(fill, inverse);
+
+  if (available < required) {
+    const decimals = inverse ? 8 : 2;
+    return {
+      title: "Insufficient balance",
+      description: `Needs ${required.toFixed(decimals)} ${currency} on ${fill.exchange}, available ${available.toFixed(decimals)}`
+    };
+  }
+
+  if (canonical.type === 'spot' && fill.side === 'Sell' && (balances[canonical.base] ?? 0) < fill.quantity) {
+    return {
+      title: "Insufficient balance",
+      description: `Needs ${fill.quantity} ${canonical.base} on ${fill.exchange}, available ${balances[canonical.base] ?? 0}`
+    };
+  }
+
+  return null;
+};
+
+// PnL in settlement currency of a quantity moving from one price to another. Inverse
+// amounts are USD and settle in the base: quantity * (1 / entry - 1 / price).
+const getPnl = (quantity: number, entryPrice: number, price: number, inverse: boolean): number => {
+  if (inverse) return entryPrice && price ? quantity * (price - entryPrice) / (entryPrice * price) : 0;
+  return quantity * (price - entryPrice);
+};
+
+/**
+ * Adds a signed quantity to a position. Trades in the position's direction move
+ * the average entry price (harmonic for inverse contracts); trades against it
+ * realize PnL on the closed quantity.
+ */
+const updatePosition = (position: PaperPosition, quantity: number, price: number, inverse: boolean): PaperPosition => {
+  const current = position.quantity;
+
+  if (current === 0 || Math.sign(current) === Math.sign(quantity)) {
+    const size = Math.abs(current) + Math.abs(quantity);
+    const averageEntryPrice = getAveragePrice(
+      size,
+      getPriceWeight(Math.abs(current), position.averageEntryPrice || price, inverse) + getPriceWeight(Math.abs(quantity), price, inverse),
+      inverse
+    );
+    return { ...position, quantity: current + quantity, averageEntryPrice };
+  }
+
+  const closed = Math.min(Math.abs(quantity), Math.abs(current));
+  const remaining = current + quantity;
+  const flipped = Math.sign(remaining) !== 0 && Math.sign(remaining) !== Math.sign(current);
+
+  return {
+    ...position,
+    quantity: remaining,
+    averageEntryPrice: remaining === 0 ? 0 : flipped ? price : position.averageEntryPrice,
+    realizedPnl: position.realizedPnl + getPnl(closed, position.averageEntryPrice, price, inverse) * Math.sign(current)
+  };
+};
+
+/**
+ * Books a fill: updates the venue balances and the instrument's position. Spot
+ * fills exchange base for quote; derivative fills settle realized PnL and fees
+ * in the settlement currency (the base for inverse contracts, whose USD fee is
+ * converted at the fill price). Validate with `validatePaperFill` first.
+ *
+ * Spot cannot be shorted: a spot sell closes at most the bought position, and
+ * the rest only reduces the base balance it was paid from.
+ */
+export const applyPaperFill = (account: PaperAccount, fill: PaperFill): PaperAccount => {
+  const canonical = toCanonical(fill.exchange, fill.symbol);
+  if (!canonical) return account;
+
+  const key = getPositionKey(fill.exchange, fill.symbol);
+  const isSamePosition = (position: PaperPosition) => getPositionKey(position.exchange, position.symbol) === key;
+  const existing = account.positions.find(isSamePosition)
+    ?? {
+      exchange: fill.exchange,
+      symbol: fill.symbol,
+      base: canonical.base,
+      quote: canonical.quote,
+      type: canonical.type,
+      quantity: 0,
+      averageEntryPrice: 0,
+      realizedPnl: 0,
+      fees: 0
+    };
+  const signedQuantity = fill.side === 'Buy' ? fill.quantity : -fill.quantity;
+  const positionQuantity = canonical.type === 'spot' && fill.side === 'Sell'
+    ? -Math.min(fill.quantity, Math.max(existing.quantity, 0))
+    : signedQuantity;
+  const inverse = isInverse(canonical);
+  const fee = getSettledFee(fill, inverse);
+  const position: PaperPosition = {
+    ...(positionQuantity ? updatePosition(existing, positionQuantity, fill.price, inverse) : existing),
+    fees: existing.fees + fee,
+    ...(inverse ? { settlement: canonical.base } : {})
+  };
+
+  const balances = { ...getBalances(account, fill.exchange) };
+  const { base, quote } = canonical;
+  if (canonical.type === 'spot') {
+    balances[base] = (balances[base] ?? 0) + signedQuantity;
+    balances[quote] = (balances[quote] ?? 0) - signedQuantity * fill.price - fill.fee;
+  } else {
+    const settlement = getSettlement(canonical);
+    balances[settlement] = (balances[settlement] ?? 0) + position.realizedPnl - existing.realizedPnl - fee;
+  }
+
+  return {
+    ...account,
+    balances: { ...account.balances, [fill.exchange]: balances },
+    positions: account.positions.some(isSamePosition)
+      ? account.positions.map(candidate => isSamePosition(candidate) ? position : candidate)
+      : [...account.positions, position],
+    fills: [fill, ...account.fills].slice(0, MAX_PAPER_FILLS),
+    marks: { ...account.marks, [key]: account.marks[key] ?? fill.price },
+    updatedAt: fill.timestamp
+  };
+};
+
+export const getUnrealizedPnl = (position: PaperPosition, mark: number | undefined): number => {
+  if (mark === undefined || position.quantity === 0) return 0;
+  return getPnl(position.quantity, position.averageEntryPrice, mark, isInverseMarket(position.exchange, position.symbol));
+};
@@ -0,0 +1,161 @@
+import { Exchange, OrderForm, OrderLevel, OrderSide } from '@/types/orderbook';
+import { getFeeTier, getInstrumentType } from '@/services/feeService';
+import { VenueBook } from '@/services/consolidatedBookService';
+import { getAveragePrice, getNotional, getPriceWeight, isInverseMarket } from '@/services/instrumentService';
+
+// One venue's share of a routed parent order
+export interface ChildOrder {
+  exchange: Exchange;
+  quantity: number;
+  averagePrice: number; // Before fees
+  notional: number;
+  fees: number;
+  levels: number; // Price levels consumed
+}
+
+// All-in result of executing the whole order on a single venue
+export interface VenueExecution {
+  exchange: Exchange;
+  filledQuantity: number;
+  allInPrice: number;
+}
+
+export interface RoutingPlan {
+  side: OrderSide;
+  quantity: number;
+  filledQuantity: number;
+  children: ChildOrder[];
+  vwap: number; // Before fees
+  allInPrice: number; // Fees included: paid per unit when buying, received per unit when selling
+  totalFees: number;
+  bestSingleVenue: VenueExecution | null;
+  savings: number; // In quote currency, versus the best single venue
+  savingsBps: number;
+  timestamp: number;
+}
+
+interface RoutableLevel extends OrderLevel {
+  exchange: Exchange;
+  effectivePrice: number;
+  taker: number;
+  inverse: boolean;
+}
+
+// The user's fee tier applies on the venue the order was entered for; other venues charge their regular tier
+const getRoutableLevels = (venueBooks: VenueBook[], form: OrderForm): RoutableLevel[] => {
+  const isBuy = form.side === 'Buy';
+  const limitPrice = form.type === 'Limit' ? form.price : null;
+
+  return venueBooks.flatMap(({ exchange, symbol, book }) => {
+    const tierName = exchange === form.exchange ? form.feeTier : undefined;
+    const taker = getFeeTier(exchange, getInstrumentType(exchange, symbol), tierName).taker;
+    const inverse = isInverseMarket(exchange, symbol);
+    const levels = isBuy ? book.asks : book.bids;
+
+    return levels
+      .filter(level => !limitPrice || (isBuy ? level.price <= limitPrice : level.price >= limitPrice))
+      .map(level => ({
+        ...level,
+        exchange,
+        effectivePrice: level.price * (isBuy ? 1 + taker : 1 - taker),
+        taker,
+        inverse
+      }));
+  });
+};
+
+/**
+ * Takes liquidity from the cheapest levels first, fees included. With proportional
+ * taker fees this greedy sweep is the minimum-cost split.
+ */
+const sweep = (levels: RoutableLevel[], side: OrderSide, quantity: number) => {
+  const sorted = [...levels].sort((a, b) => side === 'Buy'
+    ? a.effectivePrice - b.effectivePrice
+    : b.effectivePrice - a.effectivePrice);
+  const children = new Map<Exchange, ChildOrder>();
+  // Running `getPriceWeight` per venue and overall, for averages that are harmonic on inverse contracts
+  const childWeights = new Map<Exchange, number>();
+  let totalWeight = 0;
+  let inverse = false;
+  let remaining = quantity;
+
+  for (const level of sorted) {
+    if (remaining <= 0) break;
+
+    const fillQuantity = Math.min(remaining, level.quantity);
+    const notional = getNotional(fillQuantity, level.price, level.inverse);
+    const weight = getPriceWeight(fillQuantity, level.price, level.inverse);
+    const child = children.get(level.exchange)
+      ?? { exchange: level.exchange, quantity: 0, averagePrice: 0, notional: 0, fees: 0, levels: 0 };
+    const childWeight = (childWeights.get(level.exchange) ?? 0) + weight;
+
+    child.quantity += fillQuantity;
+    child.notional += notional;
+    child.fees += level.taker * notional;
+    child.levels++;
+    child.averagePrice = getAveragePrice(child.quantity, childWeight, level.inverse);
+    children.set(level.exchange, child);
+    childWeights.set(level.exchange, childWeight);
+    totalWeight += weight;
+    inverse = level.inverse;
+
+    remaining -= fillQuantity;
+  }
+
+  const childOrders = [...children.values()].sort((a, b) => b.quantity - a.quantity);
+  const filledQuantity = quantity - Math.max(0, remaining);
+  const notional = childOrders.reduce((sum, child) => sum + child.notional, 0);
+  const totalFees = childOrders.reduce((sum, child) => sum + child.fees, 0);
+  const allInValue = side === 'Buy' ? notional + totalFees : notional - totalFees;
+  const vwap = getAveragePrice(filledQuantity, totalWeight, inverse);
+
+  return {
+    children: childOrders,
+    filledQuantity,
+    totalFees,
+    vwap,
+    // The VWAP moved by the fees' share of the notional
+    allInPrice: notional ? vwap * (allInValue / notional) : 0
+  };
+};
+
+/**
+ * Splits a parent order across the live books of every venue to minimise the
+ * all-in cost, and compares it with executing everything on the best single venue
+ *
+ * @param venueBooks Latest book of each venue quoting the same canonical instrument
+ * @param form Parent order: side, quantity, the limit of limit orders (levels beyond it
+ * are not taken) and the fee tier selected for its venue
+ */
+export const planRoute = (venueBooks: VenueBook[], form: OrderForm): RoutingPlan => {
+  const { side, quantity } = form;
+  const routed = sweep(getRoutableLevels(venueBooks, form), side, quantity);
+
+  // The best single venue fills the most, then at the best all-in price
+  const bestSingleVenue = venueBooks
+    .map(venueBook => {
+      const execution = sweep(getRoutableLevels([venueBook], form), side, quantity);
+      return { exchange: venueBook.exchange, filledQuantity: execution.filledQuantity, allInPrice: execution.allInPrice };
+    })
+    .filter(execution => execution.filledQuantity > 0)
+    .sort((a, b) => (b.filledQuantity - a.filledQuantity)
+      || (side === 'Buy' ? a.allInPrice - b.allInPrice : b.allInPrice - a.allInPrice))[0] ?? null;
+
+  const savingsPerUnit = bestSingleVenue && routed.filledQuantity
+    ? (side === 'Buy' ? bestSingleVenue.allInPrice - routed.allInPrice : routed.allInPrice - bestSingleVenue.allInPrice)
+    : 0;
+  const savingsRate = bestSingleVenue ? savingsPerUnit / bestSingleVenue.allInPrice : 0;
+
+  return {
+    side,
+    quantity,
+    ...routed,
+    bestSingleVenue,
+    // Inverse amounts already are quote currency and gain the relative price improvement
+    savings: isInverseMarket(form.exchange, form.symbol)
+      ? savingsRate * routed.filledQuantity
+      : savingsPerUnit * routed.filledQuantity,
+    savingsBps: savingsRate * 10000,
+    timestamp: Date.now()
+  };
+};
@@ -3,6 +3,7 @@ export interface OrderLevel {
   quantity: number;
   total?: number; // Cumulative quantity at this level
   percentage?: number; // For visualization
+  venues?: Record<Exchange, number>; // Quantity per venue on consolidated books
 }
 
 export interface OrderBook {
@@ -11,15 +12,59 @@ export interface OrderBook {
   timestamp: number;
 }
 
-export type Exchange = 'OKX' | 'Bybit' | 'Deribit';
+// Id of a registered exchange adapter (see services/exchanges)
+export type Exchange = string;
+
+export type InstrumentType = 'spot' | 'perpetual' | 'future' | 'option';
+
+// Venue-independent identity of a market; every venue symbol maps to and from one
+export interface CanonicalInstrument {
+  base: string;
+  quote: string;
+  type: InstrumentType;
+  // Settlement currency of derivatives; the base currency for inverse contracts
+  settlement?: string;
+  expiry?: number;
+  // Options only
+  strike?: number;
+  optionType?: 'call' | 'put';
+}
+
+// Trading rules of one venue instrument, loaded from the venue's reference data
+export interface Instrument extends CanonicalInstrument {
+  exchange: Exchange;
+  symbol: string;
+  tickSize: number;
+  lotSize: number;
+  minSize: number;
+  minNotional?: number; // In quote currency, where the venue enforces one
+  contractValue: number; // Underlying per contract; 1 for spot
+}
 
 export interface Symbol {
   name: string;
   exchange: Exchange;
 }
 
-export type OrderType = 'Market' | 'Limit';
+// Stop, StopLimit, TakeProfit and TrailingStop are conditional: they are armed against a
+// reference price and become a Market (StopLimit: Limit) order when triggered
+export type OrderType = 'Market' | 'Limit' | 'Stop' | 'StopLimit' | 'TakeProfit' | 'TrailingStop';
+
+// Reference price conditional orders are armed against
+export type TriggerSource = 'mid' | 'last';
 export type OrderSide = 'Buy' | 'Sell';
+
+export interface Trade {
+  id: string;
+  exchange: Exchange;
+  symbol: string;
+  price: number;
+  size: number;
+  side: OrderSide; // Aggressor (taker) side
+  timestamp: number; // Exchange timestamp
+  receivedAt?: number; // Local arrival time, set by WebSocketService; comparable with local timestamps
+  replayed?: boolean; // Recent history sent on subscription rather than a new print
+}
 export type DelayOption = 'immediate' | '5s' | '10s' | '30s';
 
 export interface OrderForm {
@@ -30,17 +75,193 @@ export interface OrderForm {
   price: number | null;
   quantity: number;
   delay: DelayOption;
+  feeTier?: string; // Name of the venue fee tier; the regular tier when unset
+  triggerPrice?: number | null; // Stop, StopLimit and TakeProfit
+  trailingDistance?: number | null; // TrailingStop, in price units
+  triggerSource?: TriggerSource; // Mid when unset
+}
+
+// All-in cost of a simulated order. Marketable quantity pays the taker rate; a limit
+// remainder is assumed to rest and fill at its limit price as maker.
+export interface OrderCosts {
+  feeTier: string;
+  takerQuantity: number;
+  makerQuantity: number;
+  grossNotional: number;
+  takerFee: number;
+  makerFee: number;
+  totalFees: number;
+  netCost: number; // Paid when buying, received when selling
+  effectivePrice: number; // Average price with fees included
+}
+
+// One book level consumed by a simulated order
+export interface FillLevel {
+  price: number;
+  quantity: number;
+  notional: number;
+  cumulativeQuantity: number;
+  vwap: number; // Average price of every fill up to and including this level
+  venues?: Record<Exchange, number>; // Quantity taken from each venue of a consolidated level
+}
+
+// Recent market activity measured while streaming, used to calibrate the impact model
+export interface MarketStats {
+  midPrice: number;
+  volatility: number; // Daily realized volatility of the mid, as a fraction
+  dailyVolume: number; // Traded quantity extrapolated to 24h
+  samples: number; // Mid returns the volatility is measured from
+  windowMs: number; // Time span the statistics cover
+}
+
+// Square-root model estimate of the price move caused by an order
+export interface MarketImpact {
+  temporaryBps: number; // Reverts once the order is done
+  permanentBps: number; // Remains in the price afterwards
+  totalBps: number;
+  temporaryCost: number; // In quote currency
+  permanentCost: number;
+  totalCost: number;
+  participation: number; // Order quantity / daily volume
+  volatility: number;
+}
+
+// How a delayed order fared at execution compared with its arrival (submit-time) evaluation.
+// Positive price changes are adverse: higher when buying, lower when selling.
+export interface ExecutionDrift {
+  fillChange: number; // Fill percentage points
+  vwapChange: number | null; // In price units
+  vwapChangeBps: number | null;
+  slippageChange: number; // Percentage points
+  hesitationCost: number; // Quote currency lost on the executed quantity
+}
+
+// Re-evaluation of a delayed order against the live book once its delay has elapsed
+export interface DelayedExecution {
+  submittedAt: number;
+  executeAt: number;
+  result: OrderSimulation | null; // Null while the delay is running
+  drift: ExecutionDrift | null;
 }
 
 export interface OrderSimulation {
   form: OrderForm;
   fillPercentage: number;
-  marketImpact: number;
-  slippage: number;
-  timeToFill?: string;
+  marketImpact: MarketImpact | null; // Null until enough market history has been observed
+  impactUnavailable?: string; // Why marketImpact is null
+  slippage: number; // Book-walk slippage versus the best price, in %
   active: boolean;
+  fills: FillLevel[];
+  averagePrice: number | null; // Of the immediately filled quantity
+  worstPrice: number | null;
+  remainingQuantity: number; // Not filled immediately
+  venueFills?: Record<Exchange, number>; // Filled quantity per venue when run against a consolidated book
+  costs?: OrderCosts;
+  delayed?: DelayedExecution; // Set on the arrival evaluation of orders with a delay
 }
 
+export type ConditionalOrderStatus = 'armed' | 'triggered';
+
+// Trigger state of a conditional order
+export interface ConditionalOrder {
+  form: OrderForm; // As entered, before conversion to Market or Limit
+  status: ConditionalOrderStatus;
+  triggerPrice: number; // Moves with the market for trailing stops
+  extremePrice?: number; // Best reference price a trailing stop has seen
+  referencePrice: number | null; // Last observed reference price
+  armedAt: number;
+  triggeredAt?: number;
+}
+
+// One entry of the simulation blotter
+export interface SimulationRun {
+  id: string;
+  simulation: OrderSimulation; // Inactive until a conditional order triggers
+  conditional?: ConditionalOrder;
+  createdAt: number;
+  updatedAt: number; // Last time the order was (re-)run
+  pinned: boolean;
+}
+
+export type GhostOrderStatus = 'working' | 'partially-filled' | 'filled' | 'cancelled';
+
+// How a ghost order got a fill: taking liquidity on placement, a print at or through
+// its price, or the opposite side of the book moving through its price
+export type GhostFillReason = 'taker' | 'trade' | 'cross';
+
+export interface GhostFill {
+  timestamp: number;
+  price: number;
+  quantity: number;
+  reason: GhostFillReason;
+}
+
+// A simulated limit order kept live against the venue feed until it fills
+export interface GhostOrder {
+  id: string;
+  form: OrderForm;
+  placedAt: number;
+  status: GhostOrderStatus;
+  initialQueueAhead: number; // Quantity resting ahead of it at its price when placed
+  queueAhead: number;
+  levelQuantity: number; // Book quantity at its price when last observed
+  crossedQuantity: number; // Most opposite-side quantity seen through its price; only crossings beyond it fill
+  filledQuantity: number;
+  averagePrice: number | null;
+  fills: GhostFill[];
+  filledAt?: number;
+  timeToFill?: number; // ms from placement to the last fill
+}
+
+// A fill booked to the paper trading account
+export interface PaperFill {
+  id: string;
+  exchange: Exchange;
+  symbol: string;
+  side: OrderSide;
+  price: number;
+  quantity: number;
+  fee: number; // In quote currency (USD for inverse contracts)
+  liquidity: 'maker' | 'taker';
+  timestamp: number;
+}
+
+// Net holding of one venue instrument. Spot positions mirror the base balance;
+// derivative positions carry their PnL in the quote currency.
+export interface PaperPosition {
+  exchange: Exchange;
+  symbol: string;
+  base: string;
+  quote: string;
+  type: InstrumentType;
+  quantity: number; // Signed: positive long, negative short
+  averageEntryPrice: number;
+  realizedPnl: number; // In settlement currency, before fees
+  fees: number; // In settlement currency
+  // Currency PnL and fees settle in when it is not the quote (the base of inverse contracts)
+  settlement?: string;
+}
+
+export interface PaperAccount {
+  balances: Record<Exchange, Record<string, number>>; // Asset balances per venue
+  positions: PaperPosition[];
+  fills: PaperFill[]; // Newest first
+  marks: Record<string, number>; // Last mid per position key, for markets not on screen
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Lifecycle of one order book stream, from the consumer's point of view
+export type ConnectionState =
+  | { status: 'idle' }
+  | { status: 'connecting' }
+  | { status: 'open' } // socket open, waiting for the first book
+  | { status: 'subscribed' }
+  | { status: 'stale' }
+  | { status: 'reconnecting'; attempt: number; nextRetryAt: number }
+  | { status: 'failed'; reason: string }
+  | { status: 'closed' }; // closed by the user
+
 export interface WebSocketMessage {
   type: string;
   data?: unknown;